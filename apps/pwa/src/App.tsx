@@ -1,4 +1,4 @@
-import type { CSSProperties, ChangeEvent, PointerEvent as ReactPointerEvent, RefObject } from "react";
+import type { CSSProperties, ChangeEvent, PointerEvent as ReactPointerEvent, ReactElement, RefObject } from "react";
 import {
   useCallback,
   useEffect,
@@ -6,36 +6,154 @@ import {
   useRef,
   useState
 } from "react";
-import type { LiveVideoConfig, Point2D, Polygon, Quad, ScaleMode } from "@openvisionmatrix/core";
-import { SurfaceType } from "@openvisionmatrix/core";
+import type {
+  AssetRef,
+  BlendMode,
+  ColorCorrection,
+  Cue,
+  EdgeBlend,
+  EdgeBlendCurve,
+  Keyframe as ProjectKeyframe,
+  LiveVideoConfig,
+  LoopMode,
+  MaskCurve,
+  MaskMode,
+  MeshInterpolation,
+  MeshWarp,
+  Output,
+  OutputCorrection,
+  Point2D,
+  Polygon,
+  MigrationReport,
+  Project,
+  ProjectValidation,
+  Quad,
+  ScaleMode,
+  Scene as ProjectScene,
+  SceneTimeline,
+  SceneTransition,
+  Surface as ProjectSurface,
+  SurfaceAnimationType,
+  SurfaceGroup,
+  SurfaceMask,
+  SurfaceShape,
+  ValidationIssue
+} from "@openvisionmatrix/core";
 import {
+  PROJECT_SCHEMA_VERSION,
+  SurfaceType,
+  getSchemaVersion,
+  migrate,
+  validateProject
+} from "@openvisionmatrix/core";
+import {
+  applyHomography,
+  blendModeToCss,
+  colorCorrectionToCssFilter,
+  combineMasks,
+  computeHomographyQuadToQuad,
+  computeEdgeBlendZones,
   computeHomographyRectToQuad,
   computeFullscreenQuad,
+  computeMeshCellHomography,
+  createCalibrationGrid,
+  createColorCorrection,
+  createMeshFromQuad,
+  createOutputCorrection,
+  createWebGLCompositor,
+  evaluateCubic,
+  flattenMaskShape,
   cssMatrix3dToString,
+  invertHomography,
+  multiplyHomography,
+  orientMaskShape,
   getQuadCenter,
-  homographyToCssMatrix3d
+  homographyToCssMatrix3d,
+  isFeatheredMask,
+  isIdentityCorrection,
+  meshCellToCssClipPath,
+  parseCubeLut,
+  pickSurfaces,
+  polygonsToCssClipPath,
+  rasterizeMaskAlpha,
+  repairPolygon,
+  resampleMesh,
+  resolveGroups,
+  reverseMaskShape,
+  sampleKeyframes,
+  snapPoint,
+  sortKeyframes,
+  splitCubic,
+  subdivideMesh,
+  transformMesh,
+  validatePolygon,
+  validateQuad
+} from "@openvisionmatrix/renderer";
+import type {
+  CorrectedOutput,
+  Easing,
+  FullscreenAlign,
+  Keyframe,
+  KeyframeSample,
+  FullscreenFit,
+  Matrix3x3,
+  Matrix4x4,
+  PickTarget,
+  SnapGuide,
+  SnapResult,
+  SnapSegment,
+  WebGLCompositor,
+  WebGLLayer
 } from "@openvisionmatrix/renderer";
-import type { FullscreenAlign, FullscreenFit, Matrix4x4 } from "@openvisionmatrix/renderer";
-import { scaleQuad } from "@openvisionmatrix/renderer";
+import { rotateMesh, rotatePoint, rotateQuad, scaleMesh, scaleQuad } from "@openvisionmatrix/renderer";
+import { addAsset, deleteAsset, getAsset, listAssets } from "./assets";
+import type { StoredAsset } from "./assets";
+import { BUNDLE_EXTENSION, createBundle, importBundle, isBundleFile } from "./bundle";
 
 const STAGE_DEFAULT_WIDTH = 980;
 const STAGE_DEFAULT_HEIGHT = 620;
 const DEFAULT_SIZE = { width: 320, height: 220 };
+const MASK_IMAGE_RESOLUTION = 0.5;
+// While dragging or playing, feathered mask images are redrawn at most this often (ms).
+const MASK_IMAGE_INTERVAL = 100;
+const SNAP_THRESHOLD = 8;
+const PICK_CYCLE_DISTANCE = 3;
+const ROTATION_SNAP = 15;
+const ROTATION_HANDLE_OFFSET = 36;
+const KEYFRAME_EPSILON = 0.001;
+const AUTOSAVE_KEY = "openvisionmatrix.autosave";
+// A restored autosave that fails validation is moved here before autosave resumes.
+const AUTOSAVE_BACKUP_KEY = "openvisionmatrix.autosave.rejected";
+const AUTOSAVE_SOURCE = "Autosave";
+const AUTOSAVE_DELAY = 1000;
+const UNTITLED_PROJECT = "Unbenanntes Projekt";
+const SCENE_NAME = "Szene";
+const DEFAULT_SCENE_TRANSITION: SceneTransition = { type: "crossfade", duration: 1 };
+const GROUP_NAME = "Gruppe";
+const GROUP_INDENT = 16;
+
+const EASING_LABELS: Record<Easing, string> = {
+  linear: "Linear",
+  "ease-in": "Ease In",
+  "ease-out": "Ease Out",
+  "ease-in-out": "Ease In/Out",
+  step: "Sprung"
+};
+const DEFAULT_GRID_SIZE = 20;
+const DEFAULT_MESH_SIZE = 3;
+const MAX_MESH_SIZE = 16;
+const DEFAULT_EDGE_BLEND: EdgeBlend = {
+  left: 0,
+  right: 0,
+  top: 0,
+  bottom: 0,
+  gamma: 2.2,
+  curve: "smoothstep"
+};
 
-type Shape = "rect" | "circle" | "triangle";
-
-type LoopMode = "infinite" | "once" | "count";
+type Shape = SurfaceShape;
 
-type AnimationType =
-  | "none"
-  | "glow"
-  | "chase"
-  | "draw"
-  | "hue"
-  | "spin3d"
-  | "textflow"
-  | "pulse"
-  | "flip";
+type AnimationType = SurfaceAnimationType;
 
 type Surface = {
   id: string;
@@ -55,12 +173,19 @@ type Surface = {
   opacity: number;
   zIndex: number;
   src: string;
+  // Image and video surfaces reference the asset store; src is then resolved at render time.
+  assetId?: string;
   shape: Shape;
   maskPoints?: Polygon;
+  masks?: SurfaceMask[];
+  mesh?: MeshWarp;
   lineWidth: number;
   animationSpeed: number;
   animationType: AnimationType;
   glowColor: string;
+  colorCorrection?: ColorCorrection;
+  blendMode?: BlendMode;
+  keyframes?: Keyframe[];
   isMuted: boolean;
   volume: number;
   timelineStart: number;
@@ -73,6 +198,48 @@ type Surface = {
   fontSize: number;
   isVertical: boolean;
   liveVideo?: LiveVideoConfig;
+  groupId?: string;
+};
+
+type ProjectMeta = Pick<Project, "id" | "name" | "createdAt" | "updatedAt">;
+
+// The active scene's surfaces and play config live in their own state while it
+// is shown; the copies stored here are only current for inactive scenes.
+type SceneState = {
+  id: string;
+  name: string;
+  surfaces: Surface[];
+  playConfig: PlayConfig;
+  transition: SceneTransition;
+};
+
+// Outgoing scene of a running crossfade, frozen at the moment of the switch.
+type SceneFade = {
+  surfaces: Surface[];
+  time: number;
+  start: number;
+  duration: number;
+  progress: number;
+};
+
+type ProjectState = {
+  meta: ProjectMeta;
+  scenes: SceneState[];
+  activeSceneId: string;
+  groups: SurfaceGroup[];
+  cues: Cue[];
+  outputs: Output[];
+  assets: AssetRef[];
+};
+
+// Shown when a loaded project was migrated or failed validation; without a
+// project only aborting is possible.
+type ImportReview = {
+  source: string;
+  fallbackName: string;
+  project?: Project;
+  validation: ProjectValidation;
+  migration?: MigrationReport;
 };
 
 type PlayConfig = {
@@ -82,10 +249,34 @@ type PlayConfig = {
   stopAfter: number;
 };
 
+type EditMode = "perspective" | "mask" | "scale" | "rotate" | "mesh";
+
+type RendererMode = "css" | "webgl" | "split";
+
+type MediaElement = HTMLImageElement | HTMLVideoElement;
+
+type MaskImage = {
+  canvas: HTMLCanvasElement;
+  url: string;
+};
+
 type DragHandle = {
   surfaceId: string;
   index: number;
-  mode: "perspective" | "mask" | "scale";
+  mode: EditMode;
+  maskId?: string;
+  control?: "c1" | "c2";
+};
+
+type MaskTool = "point" | "curve";
+
+// Dragging a corner of the group frame, or the whole frame without an index.
+// Positions are in the parent group's space.
+type GroupDrag = {
+  groupId: string;
+  index: number | null;
+  last: Point2D;
+  uniform: boolean;
 };
 
 function createId(): string {
@@ -103,6 +294,11 @@ function clampScale(value: number): number {
   return clamp(value, 0.1, 10);
 }
 
+function normalizeRotation(degrees: number): number {
+  const wrapped = ((degrees % 360) + 540) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
+
 function unscalePoint(point: Point2D, center: Point2D, scaleX: number, scaleY: number): Point2D {
   const safeScaleX = scaleX === 0 ? 1 : scaleX;
   const safeScaleY = scaleY === 0 ? 1 : scaleY;
@@ -112,6 +308,433 @@ function unscalePoint(point: Point2D, center: Point2D, scaleX: number, scaleY: n
   };
 }
 
+function getMeshCornerIndices(mesh: MeshWarp): [number, number, number, number] {
+  return [
+    0,
+    mesh.columns - 1,
+    mesh.rows * mesh.columns - 1,
+    (mesh.rows - 1) * mesh.columns
+  ];
+}
+
+// Line surfaces edit maskPoints as an open polyline; all others edit one
+// polygon of their mask list.
+function getEditablePoints(surface: Surface, maskId: string | undefined): Polygon | undefined {
+  if (surface.type === SurfaceType.LINE) return surface.maskPoints;
+  return surface.masks?.find((mask) => mask.id === maskId)?.polygon;
+}
+
+function withEditablePoints(surface: Surface, maskId: string | undefined, points: Polygon): Surface {
+  if (surface.type === SurfaceType.LINE) return { ...surface, maskPoints: points };
+  return {
+    ...surface,
+    masks: surface.masks?.map((mask) => (mask.id === maskId ? { ...mask, polygon: points } : mask))
+  };
+}
+
+function getEditableCurves(surface: Surface, maskId: string | undefined): (MaskCurve | null)[] | undefined {
+  if (surface.type === SurfaceType.LINE) return undefined;
+  return surface.masks?.find((mask) => mask.id === maskId)?.curves;
+}
+
+function getMaskOutline(points: Polygon, curves?: (MaskCurve | null)[]): Polygon {
+  return flattenMaskShape({ mode: "include", polygon: points, curves }).polygon;
+}
+
+function isValidMask(mask: SurfaceMask): boolean {
+  return validatePolygon(getMaskOutline(mask.polygon, mask.curves)).ok;
+}
+
+function updateEditableMask(
+  surface: Surface,
+  maskId: string | undefined,
+  update: (mask: SurfaceMask) => SurfaceMask
+): Surface {
+  return {
+    ...surface,
+    masks: surface.masks?.map((mask) => (mask.id === maskId ? update(mask) : mask))
+  };
+}
+
+// Splitting segment i - 1 at the new point i keeps its curve shape and
+// feather on both halves.
+function insertMaskVertex(surface: Surface, maskId: string | undefined, index: number): Surface {
+  const points = getEditablePoints(surface, maskId);
+  if (!points || points.length < 2) return surface;
+  const segment = (index - 1 + points.length) % points.length;
+  const prev = points[segment];
+  const next = points[index % points.length];
+  const curve = getEditableCurves(surface, maskId)?.[segment];
+  const split = curve ? splitCubic(prev, curve, next) : null;
+  const updated = [...points];
+  updated.splice(index, 0, split ? split.point : { x: (prev.x + next.x) / 2, y: (prev.y + next.y) / 2 });
+  return updateEditableMask(withEditablePoints(surface, maskId, updated), maskId, (mask) => {
+    const curves = mask.curves ? [...mask.curves] : undefined;
+    if (curves) {
+      curves[segment] = split ? split.first : null;
+      curves.splice(index, 0, split ? split.second : null);
+    }
+    const edgeFeather = mask.edgeFeather ? [...mask.edgeFeather] : undefined;
+    edgeFeather?.splice(index, 0, edgeFeather[segment] ?? mask.feather ?? 0);
+    return { ...mask, curves, edgeFeather };
+  });
+}
+
+// Removing point i merges segments i - 1 and i; the outer tangents survive.
+function removeMaskVertex(surface: Surface, maskId: string | undefined, index: number): Surface {
+  const points = getEditablePoints(surface, maskId);
+  if (!points || points.length <= 3) return surface;
+  const segment = (index - 1 + points.length) % points.length;
+  const updated = [...points];
+  updated.splice(index, 1);
+  return updateEditableMask(withEditablePoints(surface, maskId, updated), maskId, (mask) => {
+    const curves = mask.curves ? [...mask.curves] : undefined;
+    if (curves) {
+      const before = curves[segment];
+      const after = curves[index];
+      curves[segment] = before || after
+        ? { c1: before?.c1 ?? points[segment], c2: after?.c2 ?? points[(index + 1) % points.length] }
+        : null;
+      curves.splice(index, 1);
+    }
+    const edgeFeather = mask.edgeFeather ? [...mask.edgeFeather] : undefined;
+    edgeFeather?.splice(index, 1);
+    return { ...mask, curves, edgeFeather };
+  });
+}
+
+// New curves bulge outwards by a quarter of the segment length, which reads
+// as an arch on a clockwise outline.
+function toggleMaskCurve(surface: Surface, maskId: string | undefined, segment: number): Surface {
+  const points = getEditablePoints(surface, maskId);
+  if (!points || surface.type === SurfaceType.LINE) return surface;
+  return updateEditableMask(surface, maskId, (mask) => {
+    const start = points[segment];
+    const end = points[(segment + 1) % points.length];
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const curves = points.map((_, index) => mask.curves?.[index] ?? null);
+    curves[segment] = curves[segment]
+      ? null
+      : {
+        c1: { x: start.x + dx / 3 + dy / 4, y: start.y + dy / 3 - dx / 4 },
+        c2: { x: start.x + (dx * 2) / 3 + dy / 4, y: start.y + (dy * 2) / 3 - dx / 4 }
+      };
+    return { ...mask, curves: curves.some(Boolean) ? curves : undefined };
+  });
+}
+
+function getMaskSvgPath(points: Polygon, curves?: (MaskCurve | null)[]): string {
+  if (points.length === 0) return "";
+  const commands = points.map((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const curve = curves?.[index];
+    return curve
+      ? `C ${curve.c1.x} ${curve.c1.y} ${curve.c2.x} ${curve.c2.y} ${next.x} ${next.y}`
+      : `L ${next.x} ${next.y}`;
+  });
+  return `M ${points[0].x} ${points[0].y} ${commands.join(" ")} Z`;
+}
+
+// Counter-clockwise masks are reversed so they stay valid; keyframe masks
+// follow their surface mask so the vertices keep lining up for interpolation.
+function orientSurfaceMasks(surface: Surface): Surface {
+  if (!surface.masks) return surface;
+  const reversed = new Set<string>();
+  const masks = surface.masks.map((mask) => {
+    const oriented = orientMaskShape(mask);
+    if (oriented !== mask) reversed.add(mask.id);
+    return oriented;
+  });
+  if (reversed.size === 0) return surface;
+  return {
+    ...surface,
+    masks,
+    keyframes: surface.keyframes?.map((keyframe) => (keyframe.masks
+      ? { ...keyframe, masks: keyframe.masks.map((mask) => (reversed.has(mask.id) ? reverseMaskShape(mask) : mask)) }
+      : keyframe))
+  };
+}
+
+function getMaskRegion(surface: Surface, stageWidth: number, stageHeight: number): Polygon[] | undefined {
+  if (surface.type === SurfaceType.LINE || !surface.masks) return undefined;
+  const valid = surface.masks.filter(isValidMask);
+  if (valid.length === 0) return undefined;
+  return combineMasks(valid, quadFromRect(0, 0, stageWidth, stageHeight));
+}
+
+// Older files store a single clip polygon in maskPoints.
+function normalizeMasks(surface: Partial<Surface>): Pick<Surface, "maskPoints" | "masks"> {
+  if (surface.type === SurfaceType.LINE || surface.masks) {
+    return { maskPoints: surface.maskPoints, masks: surface.masks };
+  }
+  return {
+    maskPoints: undefined,
+    masks: surface.maskPoints && surface.maskPoints.length >= 3
+      ? [{ id: createId(), mode: "include", polygon: surface.maskPoints }]
+      : undefined
+  };
+}
+
+// Feathered masks are drawn into a half-resolution alpha image; the soft
+// edge hides the lower resolution.
+function createMaskImage(masks: SurfaceMask[], stageWidth: number, stageHeight: number): MaskImage | null {
+  const alpha = rasterizeMaskAlpha(masks, stageWidth, stageHeight, MASK_IMAGE_RESOLUTION);
+  const canvas = document.createElement("canvas");
+  canvas.width = alpha.width;
+  canvas.height = alpha.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const imageData = ctx.createImageData(alpha.width, alpha.height);
+  imageData.data.set(alpha.data);
+  ctx.putImageData(imageData, 0, 0);
+  return { canvas, url: canvas.toDataURL("image/png") };
+}
+
+function shrinkPolygon(polygon: Polygon, factor: number): Polygon {
+  const cx = polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length;
+  const cy = polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length;
+  return polygon.map((p) => ({ x: cx + (p.x - cx) * factor, y: cy + (p.y - cy) * factor }));
+}
+
+// Edits that would break a valid mask are refused; an already invalid mask
+// stays editable so it can be fixed by hand.
+function isMaskRejected(previous: Surface, next: Surface, maskId: string | undefined): boolean {
+  if (previous.type === SurfaceType.LINE) return false;
+  const before = previous.masks?.find((mask) => mask.id === maskId);
+  const after = next.masks?.find((mask) => mask.id === maskId);
+  return !!before && !!after && isValidMask(before) && !isValidMask(after);
+}
+
+function isSurfaceActive(surface: Surface, isPlaying: boolean, globalTime: number): boolean {
+  return !isPlaying
+    || (globalTime >= surface.timelineStart
+      && globalTime <= surface.timelineStart + surface.timelineDuration);
+}
+
+function parseHexColor(value: string): [number, number, number, number] {
+  const hex = value.trim().replace(/^#/, "");
+  const full = hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [1, 1, 1, 1];
+  return [
+    parseInt(full.slice(0, 2), 16) / 255,
+    parseInt(full.slice(2, 4), 16) / 255,
+    parseInt(full.slice(4, 6), 16) / 255,
+    1
+  ];
+}
+
+function rasterizeSurface(surface: Surface, stageWidth: number, stageHeight: number): HTMLCanvasElement | null {
+  const isPolyline = surface.type === SurfaceType.LINE && surface.maskPoints && surface.maskPoints.length >= 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(isPolyline ? stageWidth : surface.width));
+  canvas.height = Math.max(1, Math.round(isPolyline ? stageHeight : surface.height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  if (surface.type === SurfaceType.TEXT) {
+    ctx.fillStyle = surface.src;
+    ctx.font = `600 ${surface.fontSize}px "Space Grotesk", "Segoe UI", sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    const lines = surface.isVertical ? Array.from(surface.textContent) : surface.textContent.split("\n");
+    const lineHeight = surface.fontSize * 1.2;
+    const top = canvas.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, index) => ctx.fillText(line, canvas.width / 2, top + index * lineHeight));
+    return canvas;
+  }
+
+  if (surface.type === SurfaceType.LINE) {
+    ctx.strokeStyle = surface.src;
+    ctx.lineWidth = surface.lineWidth;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    if (isPolyline && surface.maskPoints) {
+      surface.maskPoints.forEach((p, index) => (index === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    } else {
+      const inset = surface.lineWidth / 2;
+      const w = canvas.width - surface.lineWidth;
+      const h = canvas.height - surface.lineWidth;
+      if (surface.shape === "circle") {
+        ctx.ellipse(canvas.width / 2, canvas.height / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+      } else if (surface.shape === "triangle") {
+        ctx.moveTo(canvas.width / 2, inset);
+        ctx.lineTo(canvas.width - inset, canvas.height - inset);
+        ctx.lineTo(inset, canvas.height - inset);
+        ctx.closePath();
+      } else {
+        ctx.rect(inset, inset, w, h);
+      }
+    }
+    ctx.stroke();
+    return canvas;
+  }
+
+  return null;
+}
+
+function isSameOutline(
+  a: { polygon: Polygon; curves?: (MaskCurve | null)[] },
+  b: { polygon: Polygon; curves?: (MaskCurve | null)[] }
+): boolean {
+  const samePoint = (p: Point2D, q: Point2D) => p.x === q.x && p.y === q.y;
+  if (a.polygon.length !== b.polygon.length || !a.polygon.every((point, index) => samePoint(point, b.polygon[index]))) {
+    return false;
+  }
+  if (!a.curves || !b.curves) return !a.curves?.some(Boolean) && !b.curves?.some(Boolean);
+  return a.curves.length === b.curves.length && a.curves.every((curve, index) => {
+    const other = b.curves?.[index];
+    return curve && other ? samePoint(curve.c1, other.c1) && samePoint(curve.c2, other.c2) : !curve && !other;
+  });
+}
+
+function isSameMaskList(a: NonNullable<Keyframe["masks"]>, b: NonNullable<Keyframe["masks"]>): boolean {
+  return a.length === b.length && a.every((mask, index) => mask.id === b[index].id && isSameOutline(mask, b[index]));
+}
+
+// Keyframes holding the same masks share one list, which the sampler passes
+// through untouched instead of interpolating a copy.
+function createKeyframe(surface: Surface, time: number, easing: Easing, others: Keyframe[] = []): Keyframe {
+  const masks = surface.masks?.map((mask) => ({ id: mask.id, polygon: mask.polygon, curves: mask.curves }));
+  return {
+    time,
+    easing,
+    quad: surface.quad.map((point) => ({ ...point })) as Quad,
+    maskPoints: surface.maskPoints?.map((point) => ({ ...point })),
+    masks: masks && (others.find((keyframe) => keyframe.masks && isSameMaskList(masks, keyframe.masks))?.masks ?? masks),
+    opacity: surface.opacity,
+    scaleX: surface.scaleX,
+    scaleY: surface.scaleY,
+    rotation: surface.rotation
+  };
+}
+
+function applyKeyframeSample(surface: Surface, sample: KeyframeSample): Surface {
+  const quad = sample.quad ?? surface.quad;
+  let mesh = surface.mesh;
+  if (sample.quad && mesh) {
+    // The mesh rides along with the animated quad.
+    try {
+      mesh = transformMesh(mesh, computeHomographyQuadToQuad(surface.quad, quad));
+    } catch {
+      mesh = surface.mesh;
+    }
+  }
+  // Masks the keyframes leave as they are keep their identity, so their
+  // cached mask images stay valid.
+  const sampled = sample.masks && surface.masks
+    ? surface.masks.map((mask) => {
+      const animated = sample.masks?.find((item) => item.id === mask.id);
+      return animated && !isSameOutline(mask, animated) ? { ...mask, polygon: animated.polygon, curves: animated.curves } : mask;
+    })
+    : surface.masks;
+  const masks = sampled?.every((mask, index) => mask === surface.masks?.[index]) ? surface.masks : sampled;
+  return {
+    ...surface,
+    quad,
+    mesh,
+    masks,
+    maskPoints: sample.maskPoints ?? surface.maskPoints,
+    opacity: sample.opacity ?? surface.opacity,
+    scaleX: sample.scaleX ?? surface.scaleX,
+    scaleY: sample.scaleY ?? surface.scaleY,
+    rotation: sample.rotation ?? surface.rotation
+  };
+}
+
+// The quad as drawn: scale, then rotation about its center.
+function getTransformedQuad(quad: Quad, scaleX: number, scaleY: number, rotation: number): Quad {
+  const center = getQuadCenter(quad);
+  return rotateQuad(scaleQuad(quad, scaleX, scaleY, center), rotation, center);
+}
+
+// Maps the stored geometry; mesh tangents go through the Jacobian of H.
+function transformSurfaceGeometry(surface: Surface, H: Matrix3x3): Surface {
+  const map = (point: Point2D) => applyHomography(H, point);
+  return {
+    ...surface,
+    quad: surface.quad.map(map) as Quad,
+    mesh: surface.mesh ? transformMesh(surface.mesh, H) : undefined,
+    maskPoints: surface.maskPoints?.map(map),
+    masks: surface.masks?.map((mask) => ({
+      ...mask,
+      polygon: mask.polygon.map(map),
+      curves: mask.curves?.map((curve) => (curve ? { c1: map(curve.c1), c2: map(curve.c2) } : null))
+    }))
+  };
+}
+
+// Takes coordinates of space `from` into space `to`; both map into stage space,
+// null standing for the stage itself.
+function getRelativeHomography(from: Matrix3x3 | null, to: Matrix3x3 | null): Matrix3x3 | null {
+  if (!to) return from;
+  const inverse = invertHomography(to);
+  return from ? multiplyHomography(inverse, from) : inverse;
+}
+
+// Folds a keyframe's scale and rotation into its quad, falling back to the
+// surface's values for whatever the keyframe leaves out.
+function bakeKeyframe(keyframe: Keyframe, surface: Surface): Keyframe {
+  if (!keyframe.quad && keyframe.scaleX === undefined && keyframe.scaleY === undefined && keyframe.rotation === undefined) {
+    return keyframe;
+  }
+  return {
+    ...keyframe,
+    quad: getTransformedQuad(
+      keyframe.quad ?? surface.quad,
+      keyframe.scaleX ?? surface.scaleX,
+      keyframe.scaleY ?? surface.scaleY,
+      keyframe.rotation ?? surface.rotation
+    ),
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0
+  };
+}
+
+function transformKeyframe(keyframe: Keyframe, H: Matrix3x3): Keyframe {
+  const map = (point: Point2D) => applyHomography(H, point);
+  return {
+    ...keyframe,
+    quad: keyframe.quad?.map(map) as Quad | undefined,
+    maskPoints: keyframe.maskPoints?.map(map),
+    masks: keyframe.masks?.map((mask) => ({
+      ...mask,
+      polygon: mask.polygon.map(map),
+      curves: mask.curves?.map((curve) => (curve ? { c1: map(curve.c1), c2: map(curve.c2) } : null))
+    }))
+  };
+}
+
+// The group and every group nested in it.
+function collectGroupIds(groups: SurfaceGroup[], id: string): Set<string> {
+  const ids = new Set([id]);
+  for (let added = true; added;) {
+    added = false;
+    for (const group of groups) {
+      if (group.parentId !== undefined && ids.has(group.parentId) && !ids.has(group.id)) {
+        ids.add(group.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Groups in tree order, each followed by its nested groups.
+function getGroupTree(groups: SurfaceGroup[]): { group: SurfaceGroup; depth: number }[] {
+  const entries: { group: SurfaceGroup; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    groups.filter((group) => group.parentId === parentId).forEach((group) => {
+      entries.push({ group, depth });
+      visit(group.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return entries;
+}
+
 function formatTime(seconds: number): string {
   const whole = Math.max(0, seconds);
   const mins = Math.floor(whole / 60);
@@ -128,6 +751,287 @@ function quadFromRect(x: number, y: number, width: number, height: number): Quad
   ];
 }
 
+function createOutput(index: number): Output {
+  return {
+    id: createId(),
+    name: `Output ${index}`,
+    region: { x: 0, y: 0, width: 1, height: 1 },
+    edgeBlend: { ...DEFAULT_EDGE_BLEND }
+  };
+}
+
+function normalizeOutputs(value: unknown): Output[] {
+  if (!Array.isArray(value) || value.length === 0) return [createOutput(1)];
+  return (value as Partial<Output>[]).map((output, index) => ({
+    id: output.id ?? createId(),
+    name: output.name ?? `Output ${index + 1}`,
+    region: { x: 0, y: 0, width: 1, height: 1, ...output.region },
+    edgeBlend: { ...DEFAULT_EDGE_BLEND, ...output.edgeBlend },
+    ...(output.correction ? { correction: { ...createOutputCorrection(), ...output.correction } } : {})
+  }));
+}
+
+function createPlayConfig(): PlayConfig {
+  return { loopDuration: 30, mode: "infinite", count: 1, stopAfter: 60 };
+}
+
+function createScene(name: string, surfaces: Surface[] = [], playConfig = createPlayConfig()): SceneState {
+  return { id: createId(), name, surfaces, playConfig, transition: DEFAULT_SCENE_TRANSITION };
+}
+
+function toSceneTimeline(config: PlayConfig): SceneTimeline {
+  return { duration: config.loopDuration, mode: config.mode, count: config.count, stopAfter: config.stopAfter };
+}
+
+function fromSceneTimeline(timeline: SceneTimeline): PlayConfig {
+  const defaults = createPlayConfig();
+  return {
+    loopDuration: timeline.duration,
+    mode: timeline.mode,
+    count: timeline.count ?? defaults.count,
+    stopAfter: timeline.stopAfter ?? defaults.stopAfter
+  };
+}
+
+function sortCues(cues: Cue[]): Cue[] {
+  return [...cues].sort((left, right) => left.number - right.number);
+}
+
+function formatCue(cue: Cue): string {
+  return `${cue.number} · ${cue.label || "Ohne Titel"}`;
+}
+
+function createProjectMeta(name: string): ProjectMeta {
+  const now = new Date().toISOString();
+  return { id: createId(), name, createdAt: now, updatedAt: now };
+}
+
+function toProjectKeyframe(keyframe: Keyframe): ProjectKeyframe {
+  return {
+    time: keyframe.time,
+    easing: keyframe.easing,
+    quad: keyframe.quad,
+    masks: keyframe.masks,
+    points: keyframe.maskPoints,
+    opacity: keyframe.opacity,
+    scale: keyframe.scaleX !== undefined || keyframe.scaleY !== undefined
+      ? { x: keyframe.scaleX ?? 1, y: keyframe.scaleY ?? keyframe.scaleX ?? 1 }
+      : undefined,
+    rotation: keyframe.rotation
+  };
+}
+
+function fromProjectKeyframe(keyframe: ProjectKeyframe): Keyframe {
+  return {
+    time: keyframe.time,
+    easing: keyframe.easing,
+    quad: keyframe.quad,
+    masks: keyframe.masks,
+    maskPoints: keyframe.points,
+    opacity: keyframe.opacity,
+    scaleX: keyframe.scale?.x,
+    scaleY: keyframe.scale?.y,
+    rotation: keyframe.rotation
+  };
+}
+
+function toProjectSurface(surface: Surface): ProjectSurface {
+  return {
+    id: surface.id,
+    name: surface.name,
+    type: surface.type,
+    quad: surface.quad,
+    width: surface.width,
+    height: surface.height,
+    locked: surface.locked,
+    visible: surface.visible,
+    opacity: surface.opacity,
+    zIndex: surface.zIndex,
+    masks: surface.masks,
+    points: surface.type === SurfaceType.LINE ? surface.maskPoints : undefined,
+    mesh: surface.mesh,
+    scale: { x: surface.scaleX, y: surface.scaleY, mode: surface.scaleMode },
+    rotation: surface.rotation,
+    fullscreen: {
+      enabled: surface.isFullscreen,
+      fit: surface.fullscreenFit,
+      align: surface.fullscreenAlign
+    },
+    glowColor: surface.glowColor,
+    colorCorrection: surface.colorCorrection,
+    blendMode: surface.blendMode,
+    keyframes: surface.keyframes?.map(toProjectKeyframe),
+    content: {
+      src: surface.assetId ? undefined : surface.src,
+      assetId: surface.assetId,
+      shape: surface.shape,
+      lineWidth: surface.lineWidth,
+      text: surface.textContent,
+      fontSize: surface.fontSize,
+      vertical: surface.isVertical
+    },
+    animation: { type: surface.animationType, speed: surface.animationSpeed },
+    audio: { muted: surface.isMuted, volume: surface.volume },
+    timeline: {
+      start: surface.timelineStart,
+      duration: surface.timelineDuration,
+      loopMode: surface.loopMode,
+      loopCount: surface.loopCount,
+      mediaDuration: surface.videoDuration
+    },
+    liveVideo: surface.liveVideo,
+    groupId: surface.groupId
+  };
+}
+
+function fromProjectSurface(surface: ProjectSurface, index: number): Surface {
+  const { content, timeline } = surface;
+  return orientSurfaceMasks({
+    id: surface.id ?? createId(),
+    name: surface.name ?? `Surface ${index + 1}`,
+    type: surface.type,
+    quad: surface.quad,
+    width: surface.width,
+    height: surface.height,
+    locked: surface.locked ?? false,
+    scaleX: surface.scale?.x ?? 1,
+    scaleY: surface.scale?.y ?? 1,
+    scaleMode: surface.scale?.mode ?? "uniform",
+    rotation: normalizeRotation(surface.rotation ?? 0),
+    isFullscreen: surface.fullscreen?.enabled ?? false,
+    fullscreenFit: surface.fullscreen?.fit ?? "contain",
+    fullscreenAlign: surface.fullscreen?.align ?? "center",
+    visible: surface.visible ?? true,
+    opacity: surface.opacity ?? 1,
+    zIndex: surface.zIndex ?? index + 1,
+    src: content?.src ?? "",
+    assetId: content?.assetId,
+    shape: content?.shape ?? "rect",
+    ...normalizeMasks({
+      type: surface.type,
+      masks: surface.masks,
+      maskPoints: surface.type === SurfaceType.LINE ? surface.points : surface.mask
+    }),
+    mesh: surface.mesh,
+    lineWidth: content?.lineWidth ?? 8,
+    animationSpeed: surface.animation?.speed ?? 0,
+    animationType: surface.animation?.type ?? "none",
+    glowColor: surface.glowColor ?? "#38bdf8",
+    colorCorrection: surface.colorCorrection
+      ? { ...createColorCorrection(), ...surface.colorCorrection }
+      : undefined,
+    blendMode: surface.blendMode,
+    keyframes: surface.keyframes?.map(fromProjectKeyframe),
+    isMuted: surface.audio?.muted ?? surface.type === SurfaceType.LIVE_VIDEO,
+    volume: surface.audio?.volume ?? 1,
+    timelineStart: timeline?.start ?? 0,
+    timelineDuration: timeline?.duration ?? 10,
+    videoDuration: timeline?.mediaDuration,
+    loopMode: timeline?.loopMode ?? "infinite",
+    loopCount: timeline?.loopCount ?? 1,
+    textContent: content?.text ?? "",
+    fontSize: content?.fontSize ?? 24,
+    isVertical: content?.vertical ?? false,
+    liveVideo: surface.type === SurfaceType.LIVE_VIDEO ? (surface.liveVideo ?? {}) : surface.liveVideo,
+    groupId: surface.groupId
+  });
+}
+
+function createProjectDocument(state: ProjectState): Project {
+  const surfaces = state.scenes.flatMap((scene) => scene.surfaces);
+  return {
+    ...state.meta,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    surfaces: surfaces.map(toProjectSurface),
+    groups: state.groups,
+    scenes: state.scenes.map((scene): ProjectScene => ({
+      id: scene.id,
+      name: scene.name,
+      surfaceIds: scene.surfaces.map((surface) => surface.id),
+      timeline: toSceneTimeline(scene.playConfig),
+      transition: scene.transition
+    })),
+    activeSceneId: state.activeSceneId,
+    cues: state.cues,
+    outputs: state.outputs,
+    assets: state.assets.filter((asset) => surfaces.some((surface) => surface.assetId === asset.id))
+  };
+}
+
+// Invalid surfaces, groups, scenes and outputs are dropped; invalid metadata falls back to defaults.
+// Surfaces without a valid scene join the first one, members of dropped groups leave them.
+function readProjectDocument(project: Project, validation: ProjectValidation, fallbackName: string): ProjectState {
+  const fallback = createProjectMeta(fallbackName);
+  const failed = (field: string) => validation.issues.some((issue) => issue.path === `$.${field}`);
+  const validGroups = (Array.isArray(project.groups) ? project.groups : [])
+    .filter((_, index) => !validation.invalidGroups.includes(index));
+  const hasGroup = (id?: string) => id !== undefined && validGroups.some((group) => group.id === id);
+  const groups = validGroups.map((group) => (
+    group.parentId === undefined || hasGroup(group.parentId) ? group : { ...group, parentId: undefined }
+  ));
+  const surfaces = (Array.isArray(project.surfaces) ? project.surfaces : [])
+    .map((surface, index) => ({ surface, index }))
+    .filter(({ index }) => !validation.invalidSurfaces.includes(index))
+    .map(({ surface, index }) => fromProjectSurface(surface, index))
+    .map((surface) => (surface.groupId === undefined || hasGroup(surface.groupId) ? surface : { ...surface, groupId: undefined }));
+  const outputs = Array.isArray(project.outputs) ? project.outputs : undefined;
+  const assets = Array.isArray(project.assets) ? project.assets : [];
+
+  const assigned = new Set<string>();
+  const scenes = (Array.isArray(project.scenes) ? project.scenes : [])
+    .filter((_, index) => !validation.invalidScenes.includes(index))
+    .map((scene): SceneState => ({
+      id: scene.id,
+      name: scene.name,
+      surfaces: scene.surfaceIds.flatMap((id) => {
+        const surface = surfaces.find((item) => item.id === id);
+        if (!surface || assigned.has(id)) return [];
+        assigned.add(id);
+        return [surface];
+      }),
+      playConfig: fromSceneTimeline(scene.timeline),
+      transition: scene.transition ?? DEFAULT_SCENE_TRANSITION
+    }));
+  if (scenes.length === 0) scenes.push(createScene(`${SCENE_NAME} 1`));
+  scenes[0].surfaces.push(...surfaces.filter((surface) => !assigned.has(surface.id)));
+  const cues = (Array.isArray(project.cues) ? project.cues : [])
+    .filter((cue, index) => !validation.invalidCues.includes(index) && scenes.some((scene) => scene.id === cue.sceneId));
+
+  return {
+    meta: {
+      id: failed("id") ? fallback.id : project.id,
+      name: failed("name") ? fallback.name : project.name,
+      createdAt: failed("createdAt") ? fallback.createdAt : project.createdAt,
+      updatedAt: failed("updatedAt") ? fallback.updatedAt : project.updatedAt
+    },
+    scenes,
+    activeSceneId: scenes.find((scene) => scene.id === project.activeSceneId)?.id ?? scenes[0].id,
+    groups,
+    cues: sortCues(cues),
+    outputs: normalizeOutputs(outputs?.filter((_, index) => !validation.invalidOutputs.includes(index))),
+    assets: assets.filter((_, index) => !validation.invalidAssets.includes(index))
+  };
+}
+
+function getProjectSlug(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return slug || "openvisionmatrix-project";
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "–" : date.toLocaleString("de-DE");
+}
+
 function computeCenterQuad(
   width: number,
   height: number,
@@ -150,32 +1054,84 @@ function useLocalPos(containerRef: RefObject<HTMLDivElement>) {
   );
 }
 
+function MeshMirror({
+  source,
+  width,
+  height
+}: {
+  source: RefObject<HTMLVideoElement>;
+  width: number;
+  height: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const video = source.current;
+      const ctx = canvas?.getContext("2d");
+      if (canvas && ctx && video && video.readyState >= 2 && video.videoWidth > 0) {
+        const scale = Math.max(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+        const sw = canvas.width / scale;
+        const sh = canvas.height / scale;
+        ctx.drawImage(
+          video,
+          (video.videoWidth - sw) / 2,
+          (video.videoHeight - sh) / 2,
+          sw,
+          sh,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+      }
+      frame = window.requestAnimationFrame(draw);
+    };
+    frame = window.requestAnimationFrame(draw);
+    return () => window.cancelAnimationFrame(frame);
+  }, [source]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="surface-media"
+      width={Math.max(1, Math.round(width))}
+      height={Math.max(1, Math.round(height))}
+    />
+  );
+}
+
 function SurfaceLayer({
   surface,
   renderQuad,
+  renderMesh,
+  maskRegion,
+  maskImageUrl,
   isSelected,
   isPlaying,
   globalTime,
-  onSelect,
-  onStartDrag,
   isDragging,
-  onLiveMeta
+  onLiveMeta,
+  onMediaElement
 }: {
   surface: Surface;
   renderQuad: Quad;
+  renderMesh?: MeshWarp;
+  maskRegion?: Polygon[];
+  maskImageUrl?: string;
   isSelected: boolean;
   isPlaying: boolean;
   globalTime: number;
-  onSelect: (id: string) => void;
-  onStartDrag: (event: ReactPointerEvent, id: string) => void;
   isDragging: boolean;
   onLiveMeta: (id: string, meta: { capabilities?: MediaTrackCapabilities; settings?: MediaTrackSettings; error?: string }) => void;
+  onMediaElement: (id: string, element: MediaElement | null) => void;
 }) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
 
-  const isActive = !isPlaying
-    || (globalTime >= surface.timelineStart
-      && globalTime <= surface.timelineStart + surface.timelineDuration);
+  const isActive = isSurfaceActive(surface, isPlaying, globalTime);
 
   const matrix: Matrix4x4 = useMemo(() => {
     try {
@@ -192,6 +1148,26 @@ function SurfaceLayer({
     }
   }, [surface.width, surface.height, renderQuad]);
 
+  const meshCells = useMemo(() => {
+    if (!renderMesh) return null;
+    try {
+      return subdivideMesh(renderMesh, surface.width, surface.height).flatMap((cell) => {
+        try {
+          return [{
+            transform: cssMatrix3dToString(homographyToCssMatrix3d(computeMeshCellHomography(cell))),
+            clipPath: meshCellToCssClipPath(cell, surface.width, surface.height)
+          }];
+        } catch (error) {
+          console.warn("Invalid mesh cell", error);
+          return [];
+        }
+      });
+    } catch (error) {
+      console.warn("Invalid mesh", error);
+      return null;
+    }
+  }, [renderMesh, surface.width, surface.height]);
+
   useEffect(() => {
     if (surface.type !== SurfaceType.VIDEO) return;
     const video = videoRef.current;
@@ -321,12 +1297,23 @@ function SurfaceLayer({
     };
   }, [surface.id, surface.type, surface.liveVideo, onLiveMeta]);
 
-  const maskClip = useMemo(() => {
-    if (!surface.maskPoints || surface.maskPoints.length < 3) return undefined;
-    if (surface.type === SurfaceType.LINE) return undefined;
-    const points = surface.maskPoints.map((p) => `${p.x}px ${p.y}px`).join(", ");
-    return `polygon(${points})`;
-  }, [surface.maskPoints, surface.type]);
+  const hasMeshCells = meshCells !== null;
+
+  useEffect(() => {
+    onMediaElement(surface.id, videoRef.current ?? imageRef.current);
+    return () => onMediaElement(surface.id, null);
+  }, [surface.id, surface.type, surface.src, hasMeshCells, onMediaElement]);
+
+  const maskClip = useMemo(
+    () => (maskRegion && !maskImageUrl ? polygonsToCssClipPath(maskRegion) : undefined),
+    [maskRegion, maskImageUrl]
+  );
+
+  const gammaFilterId = `gamma-${surface.id}`;
+  const colorFilter = useMemo(
+    () => (surface.colorCorrection ? colorCorrectionToCssFilter(surface.colorCorrection, gammaFilterId) : ""),
+    [surface.colorCorrection, gammaFilterId]
+  );
 
   const animationClass = useMemo(() => {
     if (surface.animationSpeed <= 0 || surface.animationType === "none") return "";
@@ -353,12 +1340,31 @@ function SurfaceLayer({
     inset: 0,
     zIndex: surface.zIndex,
     clipPath: maskClip,
+    ...(maskImageUrl
+      ? {
+        maskImage: `url(${maskImageUrl})`,
+        WebkitMaskImage: `url(${maskImageUrl})`,
+        maskSize: "100% 100%",
+        WebkitMaskSize: "100% 100%"
+      }
+      : {}),
     pointerEvents: "none",
+    filter: colorFilter || undefined,
+    mixBlendMode: surface.blendMode && surface.blendMode !== "normal"
+      ? (blendModeToCss(surface.blendMode) as CSSProperties["mixBlendMode"])
+      : undefined,
     opacity: isActive && surface.visible ? surface.opacity : 0,
     transition: isPlaying ? "opacity 0.2s ease" : undefined,
     ...(surface.glowColor ? ({ ["--glow-color"]: surface.glowColor } as CSSProperties) : {})
   };
 
+  const shapeStyle: CSSProperties = {
+    borderRadius: !surface.masks?.length && surface.shape === "circle" ? "50%" : undefined,
+    clipPath: !surface.masks?.length && surface.shape === "triangle"
+      ? "polygon(50% 0%, 0% 100%, 100% 100%)"
+      : undefined
+  };
+
   const surfaceStyle: CSSProperties = {
     position: "absolute",
     left: 0,
@@ -368,10 +1374,7 @@ function SurfaceLayer({
     transformOrigin: "0 0",
     transform: cssMatrix3dToString(matrix),
     opacity: 1,
-    borderRadius: !surface.maskPoints && surface.shape === "circle" ? "50%" : undefined,
-    clipPath: !surface.maskPoints && surface.shape === "triangle"
-      ? "polygon(50% 0%, 0% 100%, 100% 100%)"
-      : undefined
+    ...(meshCells ? {} : shapeStyle)
   };
 
   const contentClass = [
@@ -389,9 +1392,12 @@ function SurfaceLayer({
     opacity: isDragging ? 0.1 : 1
   };
 
-  const renderContent = () => {
+  const renderContent = (primary = true) => {
     switch (surface.type) {
       case SurfaceType.VIDEO:
+        if (!primary) {
+          return <MeshMirror source={videoRef} width={surface.width} height={surface.height} />;
+        }
         return (
           <video
             ref={videoRef}
@@ -402,6 +1408,9 @@ function SurfaceLayer({
           />
         );
       case SurfaceType.LIVE_VIDEO:
+        if (!primary) {
+          return <MeshMirror source={videoRef} width={surface.width} height={surface.height} />;
+        }
         return (
           <video
             ref={videoRef}
@@ -413,6 +1422,7 @@ function SurfaceLayer({
       case SurfaceType.IMAGE:
         return (
           <img
+            ref={primary ? imageRef : undefined}
             src={surface.src}
             className="surface-media"
             alt="Surface"
@@ -456,14 +1466,21 @@ function SurfaceLayer({
 
   return (
     <div className="surface-wrapper" style={wrapperStyle}>
+      {surface.colorCorrection && surface.colorCorrection.gamma !== 1 && (
+        <svg className="color-filter" aria-hidden="true">
+          <filter id={gammaFilterId} colorInterpolationFilters="sRGB">
+            <feComponentTransfer>
+              <feFuncR type="gamma" exponent={1 / surface.colorCorrection.gamma} />
+              <feFuncG type="gamma" exponent={1 / surface.colorCorrection.gamma} />
+              <feFuncB type="gamma" exponent={1 / surface.colorCorrection.gamma} />
+            </feComponentTransfer>
+          </filter>
+        </svg>
+      )}
       {surface.type === SurfaceType.LINE && surface.maskPoints && surface.maskPoints.length >= 2 && (
         <svg
           className="line-overlay"
-          style={{ ...animationStyle, pointerEvents: isPlaying ? "none" : "auto" }}
-          onPointerDown={(event) => {
-            onSelect(surface.id);
-            onStartDrag(event, surface.id);
-          }}
+          style={animationStyle}
         >
           <polyline
             points={surface.maskPoints.map((p) => `${p.x},${p.y}`).join(" ")}
@@ -474,26 +1491,91 @@ function SurfaceLayer({
           />
         </svg>
       )}
-      <div
-        className={contentClass}
-        style={{ ...surfaceStyle, pointerEvents: isPlaying ? "none" : "auto" }}
-        onPointerDown={(event) => {
-          event.preventDefault();
-          onSelect(surface.id);
-          if (!surface.locked) {
-            onStartDrag(event, surface.id);
-          }
-        }}
-        onDragStart={(event) => event.preventDefault()}
-      >
-        <div className={`surface-inner ${animationClass}`} style={contentStyle}>
-          {renderContent()}
+      {meshCells ? meshCells.map((cell, index) => (
+        <div
+          key={`cell-${index}`}
+          className={contentClass}
+          style={{
+            ...surfaceStyle,
+            transform: cell.transform,
+            clipPath: cell.clipPath
+          }}
+        >
+          <div className={`surface-inner ${animationClass}`} style={{ ...contentStyle, ...shapeStyle }}>
+            {renderContent(index === 0)}
+          </div>
         </div>
-      </div>
+      )) : (
+        <div
+          className={contentClass}
+          style={surfaceStyle}
+        >
+          <div className={`surface-inner ${animationClass}`} style={contentStyle}>
+            {renderContent()}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
+function WebGLStage({
+  getLayers,
+  outputs,
+  width,
+  height,
+  mode
+}: {
+  getLayers: () => WebGLLayer[];
+  outputs: CorrectedOutput[];
+  width: number;
+  height: number;
+  mode: Exclude<RendererMode, "css">;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef({ getLayers, outputs, width, height });
+  frameRef.current = { getLayers, outputs, width, height };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let compositor: WebGLCompositor;
+    try {
+      compositor = createWebGLCompositor(canvas);
+    } catch (error) {
+      console.warn("WebGL renderer unavailable", error);
+      return;
+    }
+
+    let frame = 0;
+    const draw = () => {
+      const current = frameRef.current;
+      compositor.render(current.getLayers(), {
+        width: current.width,
+        height: current.height,
+        pixelRatio: window.devicePixelRatio || 1,
+        background: [0, 0, 0, 1],
+        outputs: current.outputs
+      });
+      frame = window.requestAnimationFrame(draw);
+    };
+    frame = window.requestAnimationFrame(draw);
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      compositor.dispose();
+    };
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`webgl-stage ${mode}`}
+      style={{ width, height }}
+    />
+  );
+}
+
 function DrawingModal({
   title,
   onClose,
@@ -790,6 +1872,88 @@ function StageDrawingOverlay({
   );
 }
 
+const MAX_LISTED_ISSUES = 50;
+
+function ImportDialog({
+  review,
+  onAbort,
+  onImportValid
+}: {
+  review: ImportReview;
+  onAbort: () => void;
+  onImportValid: () => void;
+}) {
+  const { project, validation, migration } = review;
+  const surfaceCount = Array.isArray(project?.surfaces) ? project.surfaces.length : 0;
+  const validCount = surfaceCount - validation.invalidSurfaces.length;
+  const changes = migration?.changes ?? [];
+  return (
+    <div className="modal-backdrop">
+      <div className="modal">
+        <div className="modal-header">
+          <h3>{validation.ok ? "Projekt migriert" : "Import prüfen"}</h3>
+          <button className="icon-button" onClick={onAbort} aria-label="Close">✕</button>
+        </div>
+        <div className="modal-body">
+          {!validation.ok && (
+            <>
+              <p className="empty">
+                {project
+                  ? `${review.source}: ${validation.issues.length} Fehler, ${validCount} von ${surfaceCount} Surfaces gültig.`
+                  : `${review.source} konnte nicht gelesen werden.`}
+              </p>
+              <ul className="import-issues">
+                {validation.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <li key={`${issue.path}-${index}`}>
+                    <code>{issue.path}</code> {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {validation.issues.length > MAX_LISTED_ISSUES && (
+                <p className="empty">… und {validation.issues.length - MAX_LISTED_ISSUES} weitere.</p>
+              )}
+              {review.source === AUTOSAVE_SOURCE && (
+                <p className="empty">
+                  Die fehlerhafte Sicherung bleibt im Browser unter „{AUTOSAVE_BACKUP_KEY}“ erhalten.
+                </p>
+              )}
+            </>
+          )}
+          {migration && changes.length > 0 && (
+            <>
+              <p className="empty">
+                {review.source}: von Schema-Version {migration.fromVersion} auf {migration.toVersion} migriert.
+              </p>
+              <ul className="import-issues migration">
+                {changes.slice(0, MAX_LISTED_ISSUES).map((change, index) => (
+                  <li key={`${change.path}-${index}`}>
+                    <code>{change.path}</code> {change.message}
+                  </li>
+                ))}
+              </ul>
+              {changes.length > MAX_LISTED_ISSUES && (
+                <p className="empty">… und {changes.length - MAX_LISTED_ISSUES} weitere.</p>
+              )}
+            </>
+          )}
+        </div>
+        <div className="modal-actions">
+          {validation.ok ? (
+            <button onClick={onAbort}>OK</button>
+          ) : (
+            <>
+              <button className="ghost" onClick={onAbort}>Abbrechen</button>
+              {project && (
+                <button onClick={onImportValid}>Nur gültige Teile importieren</button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function PlayModal({
   config,
   onChange,
@@ -880,24 +2044,130 @@ function PlayModal({
   );
 }
 
+function OperatorView({
+  cues,
+  currentIndex,
+  sceneNames,
+  followRemaining,
+  onGo,
+  onBack,
+  onFire,
+  onClose
+}: {
+  cues: Cue[];
+  currentIndex: number;
+  sceneNames: Record<string, string>;
+  followRemaining: number | null;
+  onGo: () => void;
+  onBack: () => void;
+  onFire: (index: number) => void;
+  onClose: () => void;
+}) {
+  const current = cues[currentIndex];
+  const next = cues[currentIndex + 1];
+  // Buttons must not take focus, or Space would also click them.
+  const keepFocus = (event: ReactPointerEvent) => event.preventDefault();
+  // A floating panel rather than a modal, so the stage stays visible.
+  return (
+    <div className="operator-view">
+      <div className="modal operator">
+        <div className="modal-header">
+          <h3>Operator</h3>
+          <button className="icon-button" onClick={onClose} aria-label="Close">✕</button>
+        </div>
+        <div className="operator-status">
+          <div>
+            <span>Aktuell</span>
+            <strong>{current ? formatCue(current) : "–"}</strong>
+            <small>{current ? sceneNames[current.sceneId] : "Noch kein Cue ausgelöst"}</small>
+          </div>
+          <div>
+            <span>Nächster</span>
+            <strong>{next ? formatCue(next) : "Ende der Liste"}</strong>
+            <small>
+              {next ? sceneNames[next.sceneId] : ""}
+              {followRemaining !== null ? ` · Auto-Follow in ${followRemaining.toFixed(1)} s` : ""}
+            </small>
+          </div>
+        </div>
+        <div className="operator-controls">
+          <button className="operator-back" onPointerDown={keepFocus} onClick={onBack} disabled={currentIndex <= 0}>
+            BACK
+          </button>
+          <button className="operator-go" onPointerDown={keepFocus} onClick={onGo} disabled={!next}>
+            GO
+          </button>
+        </div>
+        <div className="surface-list operator-cues">
+          {cues.map((cue, index) => (
+            <div
+              key={cue.id}
+              className={`surface-item ${index === currentIndex ? "active" : ""} ${index === currentIndex + 1 ? "next" : ""}`}
+              onPointerDown={keepFocus}
+              onDoubleClick={() => onFire(index)}
+            >
+              <div className="surface-meta">
+                <strong>{formatCue(cue)}</strong>
+                <span>
+                  {sceneNames[cue.sceneId]} · {cue.time.toFixed(1)} s · Fade {cue.fade} s
+                  {cue.autoFollow !== undefined ? ` · Follow ${cue.autoFollow} s` : ""}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="empty">Leertaste: GO · Shift+Leertaste: BACK, auch bei ausgeblendeter UI (H) · Doppelklick löst einen Cue aus.</p>
+      </div>
+    </div>
+  );
+}
+
 export default function App() {
   const stageRef = useRef<HTMLDivElement>(null);
   const getLocalPos = useLocalPos(stageRef);
 
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta>(() => createProjectMeta(UNTITLED_PROJECT));
+  const [importReview, setImportReview] = useState<ImportReview | null>(null);
   const [surfaces, setSurfaces] = useState<Surface[]>([]);
+  const [outputs, setOutputs] = useState<Output[]>(() => [createOutput(1)]);
+  const [assets, setAssets] = useState<AssetRef[]>([]);
+  const [assetUrls, setAssetUrls] = useState<Record<string, string>>({});
+  const [bundleBusy, setBundleBusy] = useState(false);
+  const convertingSurfaces = useRef(new Set<string>());
+  const [selectedOutputId, setSelectedOutputId] = useState<string | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [keyframeEasing, setKeyframeEasing] = useState<Easing>("ease-in-out");
+  const pickRef = useRef<{ pos: Point2D; hits: string[]; id: string; cycle: boolean } | null>(null);
+  const [keystoneDrag, setKeystoneDrag] = useState<{ outputId: string; index: number } | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [editMode, setEditMode] = useState<"perspective" | "mask" | "scale">("perspective");
+  const [editMode, setEditMode] = useState<EditMode>("perspective");
   const [dragHandle, setDragHandle] = useState<DragHandle | null>(null);
+  const [selectedMaskId, setSelectedMaskId] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool>("point");
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [showGrid, setShowGrid] = useState(false);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const [dragSurfaceId, setDragSurfaceId] = useState<string | null>(null);
   const [lastPos, setLastPos] = useState<Point2D | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [playConfig, setPlayConfig] = useState<PlayConfig>({
-    loopDuration: 30,
-    mode: "infinite",
-    count: 1,
-    stopAfter: 60
-  });
+  const [playConfig, setPlayConfig] = useState<PlayConfig>(createPlayConfig);
+  const [scenes, setScenes] = useState<SceneState[]>(() => [createScene(`${SCENE_NAME} 1`)]);
+  const [activeSceneId, setActiveSceneId] = useState(() => scenes[0].id);
+  const [sceneFade, setSceneFade] = useState<SceneFade | null>(null);
+  const [groups, setGroups] = useState<SurfaceGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [groupDrag, setGroupDrag] = useState<GroupDrag | null>(null);
+  const [cues, setCues] = useState<Cue[]>([]);
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+  // Cue number as typed while it is not a valid, unique number yet.
+  const [cueNumberDraft, setCueNumberDraft] = useState<{ id: string; value: string; error: string } | null>(null);
+  // Last cue fired with GO/BACK and when, for auto-follow.
+  const [currentCueId, setCurrentCueId] = useState<string | null>(null);
+  const [cueFiredAt, setCueFiredAt] = useState<number | null>(null);
+  const [showOperator, setShowOperator] = useState(false);
   const [showPlayModal, setShowPlayModal] = useState(false);
   const [showWindowDrawing, setShowWindowDrawing] = useState(false);
   const [showStageDrawing, setShowStageDrawing] = useState(false);
@@ -907,9 +2177,22 @@ export default function App() {
   const [dragOverId, setDragOverId] = useState<string | null>(null);
   const [stageSize, setStageSize] = useState({ width: STAGE_DEFAULT_WIDTH, height: STAGE_DEFAULT_HEIGHT });
   const [mediaDevices, setMediaDevices] = useState<MediaDeviceInfo[]>([]);
+  const [rendererMode, setRendererMode] = useState<RendererMode>("css");
   const [liveMeta, setLiveMeta] = useState<Record<string, { capabilities?: MediaTrackCapabilities; settings?: MediaTrackSettings; error?: string }>>({});
 
   const timerRef = useRef<number | null>(null);
+  const mediaElementsRef = useRef(new Map<string, MediaElement>());
+  const rasterCacheRef = useRef(new Map<string, { key: string; canvas: HTMLCanvasElement | null }>());
+  const maskImageCacheRef = useRef(new Map<string, {
+    masks: SurfaceMask[];
+    width: number;
+    height: number;
+    image: MaskImage | null;
+    drawnAt: number;
+  }>());
+  // Transformed masks keep their identity while neither the masks nor the group
+  // transform change, so feathered mask images are not rasterized again.
+  const groupMaskCacheRef = useRef(new WeakMap<SurfaceMask[], { homography: Matrix3x3; masks?: SurfaceMask[] }>());
   const dragPointerId = useRef<number | null>(null);
   const dragPointerTarget = useRef<Element | null>(null);
 
@@ -952,7 +2235,24 @@ export default function App() {
       .catch(() => undefined);
   }, []);
 
-  const selectedSurface = surfaces.find((surface) => surface.id === selectedId) || null;
+  const resolvedGroups = useMemo(() => resolveGroups(groups), [groups]);
+  const selectedGroup = groups.find((group) => group.id === selectedGroupId) ?? null;
+
+  const getGroupHomography = useCallback((surface: Surface): Matrix3x3 | null => (
+    surface.groupId !== undefined ? resolvedGroups.get(surface.groupId)?.homography ?? null : null
+  ), [resolvedGroups]);
+
+  // A locked group locks its members for editing.
+  const isSurfaceLocked = (surface: Surface) => (
+    surface.locked || (surface.groupId !== undefined && (resolvedGroups.get(surface.groupId)?.locked ?? false))
+  );
+
+  const selectedEntry = surfaces.find((surface) => surface.id === selectedId);
+  const selectedSurface = selectedEntry && isSurfaceLocked(selectedEntry) && !selectedEntry.locked
+    ? { ...selectedEntry, locked: true }
+    : selectedEntry ?? null;
+  const activeMask = selectedSurface?.masks?.find((mask) => mask.id === selectedMaskId)
+    ?? selectedSurface?.masks?.[0];
 
   useEffect(() => {
     refreshDevices();
@@ -962,6 +2262,88 @@ export default function App() {
     setSurfaces((prev) => prev.map((surface) => (surface.id === id ? { ...surface, ...updates } : surface)));
   }, []);
 
+  const selectedOutput = outputs.find((output) => output.id === selectedOutputId) ?? outputs[0] ?? null;
+
+  const updateOutput = useCallback((id: string, updates: Partial<Output>) => {
+    setOutputs((prev) => prev.map((output) => (output.id === id ? { ...output, ...updates } : output)));
+  }, []);
+
+  const updateEdgeBlend = useCallback((id: string, updates: Partial<EdgeBlend>) => {
+    setOutputs((prev) => prev.map((output) => (
+      output.id === id ? { ...output, edgeBlend: { ...output.edgeBlend, ...updates } } : output
+    )));
+  }, []);
+
+  const updateOutputRegion = useCallback((id: string, updates: Partial<Output["region"]>) => {
+    setOutputs((prev) => prev.map((output) => (
+      output.id === id ? { ...output, region: { ...output.region, ...updates } } : output
+    )));
+  }, []);
+
+  const updateOutputCorrection = useCallback((id: string, updates: Partial<OutputCorrection>) => {
+    setOutputs((prev) => prev.map((output) => (
+      output.id === id
+        ? { ...output, correction: { ...(output.correction ?? createOutputCorrection()), ...updates } }
+        : output
+    )));
+  }, []);
+
+  const updateKeystoneCorner = useCallback((id: string, index: number, point: Point2D) => {
+    setOutputs((prev) => prev.map((output) => {
+      if (output.id !== id) return output;
+      const correction = output.correction ?? createOutputCorrection();
+      const keystone = correction.keystone.map((corner, cornerIndex) => (
+        cornerIndex === index ? point : corner
+      )) as Quad;
+      return { ...output, correction: { ...correction, keystone } };
+    }));
+  }, []);
+
+  const addOutput = useCallback(() => {
+    const output = createOutput(outputs.length + 1);
+    setOutputs((prev) => [...prev, output]);
+    setSelectedOutputId(output.id);
+  }, [outputs.length]);
+
+  const removeOutput = useCallback((id: string) => {
+    setOutputs((prev) => (prev.length <= 1 ? prev : prev.filter((output) => output.id !== id)));
+    if (selectedOutputId === id) setSelectedOutputId(null);
+  }, [selectedOutputId]);
+
+  const outputRects = useMemo(() => outputs.map((output) => ({
+    output,
+    rect: {
+      x: output.region.x * stageSize.width,
+      y: output.region.y * stageSize.height,
+      width: output.region.width * stageSize.width,
+      height: output.region.height * stageSize.height
+    }
+  })), [outputs, stageSize]);
+
+  const correctedOutputs = useMemo<CorrectedOutput[]>(() => outputRects.flatMap(({ output, rect }) => (
+    output.correction && !isIdentityCorrection(output.correction)
+      ? [{ region: rect, correction: output.correction }]
+      : []
+  )), [outputRects]);
+
+  const calibrationTarget = useMemo(() => {
+    if (!showCalibration || !selectedOutput) return null;
+    const entry = outputRects.find(({ output }) => output.id === selectedOutput.id);
+    if (!entry) return null;
+    const correction = selectedOutput.correction ?? createOutputCorrection();
+    let lines: Point2D[][];
+    try {
+      lines = createCalibrationGrid(correction, entry.rect);
+    } catch {
+      lines = [];
+    }
+    const corners = correction.keystone.map((corner) => ({
+      x: entry.rect.x + corner.x * entry.rect.width,
+      y: entry.rect.y + corner.y * entry.rect.height
+    }));
+    return { output: selectedOutput, rect: entry.rect, lines, corners };
+  }, [showCalibration, selectedOutput, outputRects]);
+
   const getRenderQuad = useCallback((surface: Surface) => {
     const baseQuad = surface.isFullscreen
       ? computeFullscreenQuad(
@@ -973,9 +2355,130 @@ export default function App() {
         surface.fullscreenAlign
       )
       : surface.quad;
-    return surface.isFullscreen ? baseQuad : scaleQuad(baseQuad, surface.scaleX, surface.scaleY);
+    if (surface.isFullscreen) return baseQuad;
+    return getTransformedQuad(baseQuad, surface.scaleX, surface.scaleY, surface.rotation);
   }, [stageSize]);
 
+  const getRenderMesh = useCallback((surface: Surface) => {
+    if (!surface.mesh) return undefined;
+    if (!surface.isFullscreen) {
+      const center = getQuadCenter(surface.quad);
+      return rotateMesh(scaleMesh(surface.mesh, surface.scaleX, surface.scaleY, center), surface.rotation, center);
+    }
+    try {
+      return transformMesh(surface.mesh, computeHomographyQuadToQuad(surface.quad, getRenderQuad(surface)));
+    } catch (error) {
+      console.warn("Invalid fullscreen mesh", error);
+      return undefined;
+    }
+  }, [getRenderQuad]);
+
+  // Members are drawn in stage space: the group homography is applied to the
+  // rendered quad, i.e. after the surface's own scale and rotation.
+  const applySurfaceGroup = useCallback((surface: Surface): Surface => {
+    const group = surface.groupId !== undefined ? resolvedGroups.get(surface.groupId) : undefined;
+    if (!group) return surface;
+    const grouped = {
+      ...surface,
+      visible: surface.visible && group.visible,
+      locked: surface.locked || group.locked,
+      opacity: surface.opacity * group.opacity
+    };
+    const { homography } = group;
+    if (!homography) return grouped;
+    try {
+      // Mirroring group transforms turn masks around.
+      const transformed = orientSurfaceMasks(transformSurfaceGeometry({
+        ...grouped,
+        quad: getRenderQuad(surface),
+        mesh: getRenderMesh(surface),
+        isFullscreen: false,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0
+      }, homography));
+      if (!surface.masks) return transformed;
+      const cached = groupMaskCacheRef.current.get(surface.masks);
+      if (cached?.homography === homography) return { ...transformed, masks: cached.masks };
+      groupMaskCacheRef.current.set(surface.masks, { homography, masks: transformed.masks });
+      return transformed;
+    } catch (error) {
+      console.warn("Invalid group transform", error);
+      return grouped;
+    }
+  }, [resolvedGroups, getRenderQuad, getRenderMesh]);
+
+  // Keyframes drive the picture during playback; while editing the stage shows
+  // the base values, which "Laden" can set from a keyframe.
+  const sampledSurfaces = useMemo(() => surfaces.map((surface) => {
+    const resolved = surface.assetId ? { ...surface, src: assetUrls[surface.assetId] ?? "" } : surface;
+    return applySurfaceGroup(isPlaying && resolved.keyframes?.length
+      ? applyKeyframeSample(resolved, sampleKeyframes(resolved.keyframes, currentTime))
+      : resolved);
+  }), [surfaces, assetUrls, isPlaying, currentTime, applySurfaceGroup]);
+
+  const displaySurfaces = useMemo(() => (sceneFade
+    ? sampledSurfaces.map((surface) => ({ ...surface, opacity: surface.opacity * sceneFade.progress }))
+    : sampledSurfaces), [sampledSurfaces, sceneFade]);
+
+  // The outgoing scene stays at full opacity below the incoming one, so the
+  // stage never shows through halfway into the fade.
+  const fadingSurfaces = useMemo(() => sceneFade?.surfaces ?? [], [sceneFade?.surfaces]);
+
+  // One keyed list for both scenes: layers of the outgoing scene keep their
+  // mounted media elements instead of remounting when the switch happens.
+  const stageLayers = useMemo(() => {
+    const incoming = new Set(displaySurfaces.map((surface) => surface.id));
+    return [
+      ...fadingSurfaces.map((surface) => ({
+        key: incoming.has(surface.id) ? `fade:${surface.id}` : surface.id,
+        surface,
+        isFading: true
+      })),
+      ...displaySurfaces.map((surface) => ({ key: surface.id, surface, isFading: false }))
+    ];
+  }, [fadingSurfaces, displaySurfaces]);
+
+  const maskRegions = useMemo(() => {
+    const regions = new Map<string, Polygon[]>();
+    [...fadingSurfaces, ...displaySurfaces].forEach((surface) => {
+      const region = getMaskRegion(surface, stageSize.width, stageSize.height);
+      if (region) regions.set(surface.id, region);
+    });
+    return regions;
+  }, [fadingSurfaces, displaySurfaces, stageSize]);
+
+  // Rasterizing and encoding a feathered mask is too slow for every pointer
+  // move or playback tick, so while dragging or playing the previous image is
+  // kept for a short while; the final shape is drawn when either ends.
+  const throttleMaskImages = isPlaying || dragHandle !== null || dragSurfaceId !== null || groupDrag !== null;
+  const maskImages = useMemo(() => {
+    const images = new Map<string, MaskImage>();
+    const now = performance.now();
+    [...fadingSurfaces, ...displaySurfaces].forEach((surface) => {
+      if (surface.type === SurfaceType.LINE || !surface.masks) return;
+      const valid = surface.masks.filter(isValidMask);
+      if (!valid.some(isFeatheredMask)) return;
+      const cached = maskImageCacheRef.current.get(surface.id);
+      const sameSize = cached?.width === stageSize.width && cached?.height === stageSize.height;
+      if (cached && sameSize && (cached.masks === surface.masks
+        || (throttleMaskImages && now - cached.drawnAt < MASK_IMAGE_INTERVAL))) {
+        if (cached.image) images.set(surface.id, cached.image);
+        return;
+      }
+      const image = createMaskImage(valid, stageSize.width, stageSize.height);
+      maskImageCacheRef.current.set(surface.id, {
+        masks: surface.masks,
+        width: stageSize.width,
+        height: stageSize.height,
+        image,
+        drawnAt: now
+      });
+      if (image) images.set(surface.id, image);
+    });
+    return images;
+  }, [fadingSurfaces, displaySurfaces, stageSize, throttleMaskImages]);
+
   const reorderSurfaces = useCallback((fromId: string, toId: string) => {
     setSurfaces((prev) => {
       const fromIndex = prev.findIndex((surface) => surface.id === fromId);
@@ -1064,18 +2567,217 @@ export default function App() {
     if (selectedId === id) setSelectedId(null);
   }, [selectedId]);
 
-  const handlePointerDown = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
-    if (isPlaying) return;
-    if (event.target === stageRef.current) setSelectedId(null);
-  }, [isPlaying]);
+  const selectGroup = (id: string | null) => {
+    setSelectedGroupId(id);
+    if (id) setSelectedId(null);
+  };
+
+  useEffect(() => {
+    if (selectedId) setSelectedGroupId(null);
+  }, [selectedId]);
+
+  const addGroup = () => {
+    const group: SurfaceGroup = {
+      id: createId(),
+      name: `${GROUP_NAME} ${groups.length + 1}`,
+      parentId: selectedGroupId ?? undefined,
+      visible: true,
+      opacity: 1
+    };
+    setGroups((prev) => [...prev, group]);
+    selectGroup(group.id);
+  };
+
+  const updateGroup = useCallback((id: string, updates: Partial<SurfaceGroup>) => {
+    setGroups((prev) => prev.map((group) => (group.id === id ? { ...group, ...updates } : group)));
+  }, []);
+
+  // Regrouping keeps surfaces and groups in place on stage: their geometry is
+  // carried over into the new group's space.
+  const regroupSurface = (surface: Surface, groupId: string | undefined): Surface => {
+    const to = groupId !== undefined ? resolvedGroups.get(groupId)?.homography ?? null : null;
+    try {
+      const M = getRelativeHomography(getGroupHomography(surface), to);
+      if (!M) return { ...surface, groupId };
+      // Scale and rotation act about the quad center, which does not commute
+      // with a perspective transform, so they are baked into the geometry
+      // before it is mapped. Fullscreen surfaces ignore both.
+      const baked: Surface = surface.isFullscreen
+        ? surface
+        : {
+          ...surface,
+          quad: getRenderQuad(surface),
+          mesh: getRenderMesh(surface),
+          scaleX: 1,
+          scaleY: 1,
+          rotation: 0,
+          keyframes: surface.keyframes?.map((keyframe) => bakeKeyframe(keyframe, surface))
+        };
+      return orientSurfaceMasks({
+        ...transformSurfaceGeometry(baked, M),
+        keyframes: baked.keyframes?.map((keyframe) => transformKeyframe(keyframe, M)),
+        groupId
+      });
+    } catch (error) {
+      console.warn("Surface geometry could not be carried over", error);
+      return { ...surface, groupId };
+    }
+  };
+
+  const reparentGroup = (group: SurfaceGroup, parentId: string | undefined): SurfaceGroup => {
+    const from = resolvedGroups.get(group.id)?.parentHomography ?? null;
+    const to = parentId !== undefined ? resolvedGroups.get(parentId)?.homography ?? null : null;
+    try {
+      const M = getRelativeHomography(from, to);
+      if (!M) return { ...group, parentId };
+      const target = group.transform?.target ?? quadFromRect(0, 0, stageSize.width, stageSize.height);
+      return {
+        ...group,
+        parentId,
+        transform: {
+          source: group.transform?.source ?? target,
+          target: target.map((point) => applyHomography(M, point)) as Quad
+        }
+      };
+    } catch (error) {
+      console.warn("Group transform could not be carried over", error);
+      return { ...group, parentId };
+    }
+  };
+
+  const setSurfaceGroup = (surfaceId: string, groupId: string | undefined) => {
+    setSurfaces((prev) => prev.map((surface) => (
+      surface.id === surfaceId && surface.groupId !== groupId ? regroupSurface(surface, groupId) : surface
+    )));
+  };
+
+  const setGroupParent = (id: string, parentId: string | undefined) => {
+    if (parentId !== undefined && collectGroupIds(groups, id).has(parentId)) return;
+    setGroups((prev) => prev.map((group) => (
+      group.id === id && group.parentId !== parentId ? reparentGroup(group, parentId) : group
+    )));
+  };
+
+  // Members and nested groups move up to the parent of the removed group.
+  const removeGroup = (id: string) => {
+    const removed = groups.find((group) => group.id === id);
+    if (!removed) return;
+    const release = (surface: Surface) => (surface.groupId === id ? regroupSurface(surface, removed.parentId) : surface);
+    setSurfaces((prev) => prev.map(release));
+    setScenes((prev) => prev.map((scene) => ({ ...scene, surfaces: scene.surfaces.map(release) })));
+    setGroups((prev) => prev
+      .filter((group) => group.id !== id)
+      .map((group) => (group.parentId === id ? reparentGroup(group, removed.parentId) : group)));
+    if (selectedGroupId === id) setSelectedGroupId(null);
+  };
+
+  // The frame of the selected group in its parent's space: the transform target,
+  // or the bounds of its members on stage until it is first transformed.
+  const groupFrame = useMemo((): Quad | null => {
+    if (!selectedGroup) return null;
+    if (selectedGroup.transform) return selectedGroup.transform.target;
+    const ids = collectGroupIds(groups, selectedGroup.id);
+    const points = displaySurfaces
+      .filter((surface) => surface.groupId !== undefined && ids.has(surface.groupId))
+      .flatMap((surface) => (
+        surface.type === SurfaceType.LINE && surface.maskPoints ? surface.maskPoints : getRenderQuad(surface)
+      ));
+    if (points.length === 0) return null;
+    const parent = resolvedGroups.get(selectedGroup.id)?.parentHomography;
+    try {
+      const inverse = parent ? invertHomography(parent) : null;
+      const local = inverse ? points.map((point) => applyHomography(inverse, point)) : points;
+      const xs = local.map((point) => point.x);
+      const ys = local.map((point) => point.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return quadFromRect(x, y, Math.max(Math.max(...xs) - x, 1), Math.max(Math.max(...ys) - y, 1));
+    } catch {
+      return null;
+    }
+  }, [selectedGroup, groups, displaySurfaces, resolvedGroups, getRenderQuad]);
+
+  const toGroupSpace = useCallback((groupId: string, pos: Point2D): Point2D => {
+    const parent = resolvedGroups.get(groupId)?.parentHomography;
+    if (!parent) return pos;
+    try {
+      return applyHomography(invertHomography(parent), pos);
+    } catch {
+      return pos;
+    }
+  }, [resolvedGroups]);
+
+  const handleStartDragGroup = (event: ReactPointerEvent, index: number | null) => {
+    if (isPlaying || !selectedGroup || !groupFrame || resolvedGroups.get(selectedGroup.id)?.locked) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (!selectedGroup.transform) {
+      updateGroup(selectedGroup.id, { transform: { source: groupFrame, target: groupFrame } });
+    }
+    setGroupDrag({
+      groupId: selectedGroup.id,
+      index,
+      last: toGroupSpace(selectedGroup.id, getLocalPos(event.clientX, event.clientY)),
+      uniform: event.shiftKey
+    });
+  };
+
+  // Corners warp the frame; with Shift held they scale it uniformly about its center.
+  useEffect(() => {
+    if (!groupDrag) return;
+    const handleMove = (event: PointerEvent) => {
+      const pos = toGroupSpace(groupDrag.groupId, getLocalPos(event.clientX, event.clientY));
+      setGroups((prev) => prev.map((group) => {
+        if (group.id !== groupDrag.groupId || !group.transform) return group;
+        const { target } = group.transform;
+        let next: Quad;
+        if (groupDrag.index === null) {
+          const dx = pos.x - groupDrag.last.x;
+          const dy = pos.y - groupDrag.last.y;
+          next = target.map((point) => ({ x: point.x + dx, y: point.y + dy })) as Quad;
+        } else if (groupDrag.uniform || event.shiftKey) {
+          const center = getQuadCenter(target);
+          const corner = target[groupDrag.index];
+          const reach = Math.hypot(corner.x - center.x, corner.y - center.y);
+          const factor = reach > 0 ? Math.hypot(pos.x - center.x, pos.y - center.y) / reach : 1;
+          next = scaleQuad(target, factor, factor, center);
+        } else {
+          next = [...target] as Quad;
+          next[groupDrag.index] = pos;
+        }
+        return validateQuad(next).ok ? { ...group, transform: { ...group.transform, target: next } } : group;
+      }));
+      setGroupDrag((prev) => (prev ? { ...prev, last: pos } : prev));
+    };
+    const handleUp = () => setGroupDrag(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [groupDrag, getLocalPos, toGroupSpace]);
+
+  // Members of transformed groups are edited in their group's space.
+  const toSurfaceSpace = useCallback((surfaceId: string, pos: Point2D): Point2D => {
+    const surface = surfaces.find((item) => item.id === surfaceId);
+    const H = surface ? getGroupHomography(surface) : null;
+    if (!H) return pos;
+    try {
+      return applyHomography(invertHomography(H), pos);
+    } catch {
+      return pos;
+    }
+  }, [surfaces, getGroupHomography]);
 
   const handleStartDragSurface = (event: ReactPointerEvent, surfaceId: string) => {
     if (isPlaying) return;
     const surface = surfaces.find((item) => item.id === surfaceId);
-    if (surface?.isFullscreen || surface?.locked) return;
+    if (!surface || surface.isFullscreen || isSurfaceLocked(surface)) return;
     event.preventDefault();
     event.stopPropagation();
-    const pos = getLocalPos(event.clientX, event.clientY);
+    const pos = toSurfaceSpace(surfaceId, getLocalPos(event.clientX, event.clientY));
     setDragSurfaceId(surfaceId);
     setLastPos(pos);
     setSelectedId(surfaceId);
@@ -1086,13 +2788,66 @@ export default function App() {
     }
   };
 
-  const handleStartDragHandle = (event: ReactPointerEvent, surfaceId: string, index: number, mode: DragHandle["mode"]) => {
+  const getPickTargets = (): PickTarget[] => displaySurfaces.map((surface) => {
+    const isPolyline = surface.type === SurfaceType.LINE && !!surface.maskPoints && surface.maskPoints.length >= 2;
+    return {
+      id: surface.id,
+      width: isPolyline ? stageSize.width : surface.width,
+      height: isPolyline ? stageSize.height : surface.height,
+      quad: isPolyline ? quadFromRect(0, 0, stageSize.width, stageSize.height) : getRenderQuad(surface),
+      mesh: isPolyline ? undefined : getRenderMesh(surface),
+      zIndex: surface.zIndex,
+      visible: surface.visible && isSurfaceActive(surface, isPlaying, currentTime),
+      shape: !surface.masks?.length && surface.type !== SurfaceType.LINE ? surface.shape : "rect",
+      clip: maskRegions.get(surface.id),
+      stroke: isPolyline && surface.maskPoints
+        ? { points: surface.maskPoints, width: surface.lineWidth }
+        : undefined
+    };
+  });
+
+  // Pressing on the selected surface keeps it so it can be dragged; releasing
+  // without moving then cycles to the next surface underneath.
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (isPlaying) return;
+    const target = event.target as Element;
+    if (target !== stageRef.current && !target.classList.contains("webgl-stage")) return;
+    const pos = getLocalPos(event.clientX, event.clientY);
+    const hits = pickSurfaces(pos, getPickTargets()).map((hit) => hit.id);
+    if (hits.length === 0) {
+      pickRef.current = null;
+      setSelectedId(null);
+      return;
+    }
+    const keep = selectedId !== null && hits.includes(selectedId);
+    const id = keep && selectedId ? selectedId : hits[0];
+    pickRef.current = { pos, hits, id, cycle: keep };
+    setSelectedId(id);
+    handleStartDragSurface(event, id);
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const pick = pickRef.current;
+    pickRef.current = null;
+    if (!pick || !pick.cycle || pick.hits.length < 2) return;
+    const pos = getLocalPos(event.clientX, event.clientY);
+    if (Math.hypot(pos.x - pick.pos.x, pos.y - pick.pos.y) > PICK_CYCLE_DISTANCE) return;
+    setSelectedId(pick.hits[(pick.hits.indexOf(pick.id) + 1) % pick.hits.length]);
+  };
+
+  const handleStartDragHandle = (
+    event: ReactPointerEvent,
+    surfaceId: string,
+    index: number,
+    mode: DragHandle["mode"],
+    control?: DragHandle["control"]
+  ) => {
     if (isPlaying) return;
     const surface = surfaces.find((item) => item.id === surfaceId);
-    if (surface?.isFullscreen || surface?.locked) return;
+    if (!surface || surface.isFullscreen || isSurfaceLocked(surface)) return;
     event.preventDefault();
     event.stopPropagation();
-    setDragHandle({ surfaceId, index, mode });
+    setDragHandle({ surfaceId, index, mode, control, maskId: mode === "mask" ? activeMask?.id : undefined });
     setSelectedId(surfaceId);
     if (event.currentTarget instanceof Element && event.currentTarget.setPointerCapture) {
       event.currentTarget.setPointerCapture(event.pointerId);
@@ -1103,38 +2858,111 @@ export default function App() {
 
   const handleAddMaskPoint = (surfaceId: string, index: number) => {
     const surface = surfaces.find((item) => item.id === surfaceId);
-    if (!surface || surface.locked || !surface.maskPoints || surface.maskPoints.length < 2) return;
-    const points = surface.maskPoints;
-    const prev = points[(index - 1 + points.length) % points.length];
-    const next = points[index % points.length];
-    const mid = { x: (prev.x + next.x) / 2, y: (prev.y + next.y) / 2 };
-    const updated = [...points];
-    updated.splice(index, 0, mid);
-    updateSurface(surfaceId, { maskPoints: updated });
-    setDragHandle({ surfaceId, index, mode: "mask" });
+    const maskId = activeMask?.id;
+    const points = surface ? getEditablePoints(surface, maskId) : undefined;
+    if (!surface || isSurfaceLocked(surface) || !points || points.length < 2) return;
+    if (maskTool === "curve" && surface.type !== SurfaceType.LINE) {
+      setSurfaces((prev) => prev.map((item) => (item.id === surfaceId ? toggleMaskCurve(item, maskId, index - 1) : item)));
+      return;
+    }
+    setSurfaces((prev) => prev.map((item) => (item.id === surfaceId ? insertMaskVertex(item, maskId, index) : item)));
+    setDragHandle({ surfaceId, index, mode: "mask", maskId });
   };
 
+  // Corners snap against other surfaces; mask points also against their own
+  // surface. Other points of the dragged outline only provide alignment axes.
+  // Snapping happens in stage space, where grouped surfaces are shown.
+  const getHandleSnap = useCallback((handle: DragHandle, pos: Point2D): SnapResult | null => {
+    if (!snapEnabled || handle.control) return null;
+    if (handle.mode !== "perspective" && handle.mode !== "mask") return null;
+    const surface = surfaces.find((item) => item.id === handle.surfaceId);
+    if (!surface) return null;
+    const toStage = (item: Surface, points: Point2D[]) => {
+      const H = getGroupHomography(item);
+      return H ? points.map((point) => applyHomography(H, point)) : points;
+    };
+    let quads: Point2D[][];
+    let outline: Point2D[];
+    try {
+      quads = surfaces
+        .filter((item) => item.visible && (item.id !== surface.id || handle.mode === "mask"))
+        .map((item) => toStage(item, getRenderQuad(item)));
+      outline = toStage(surface, handle.mode === "mask" ? getEditablePoints(surface, handle.maskId) ?? [] : getRenderQuad(surface));
+    } catch {
+      return null;
+    }
+    const others = outline.filter((_, index) => index !== handle.index);
+    return snapPoint(pos, {
+      points: quads.flat(),
+      segments: quads.flatMap((quad) => quad.map((p, index): SnapSegment => [p, quad[(index + 1) % 4]])),
+      xs: others.map((p) => p.x),
+      ys: others.map((p) => p.y),
+      grid: gridSize,
+      bounds: stageSize
+    }, SNAP_THRESHOLD);
+  }, [surfaces, snapEnabled, gridSize, stageSize, getRenderQuad, getGroupHomography]);
+
   useEffect(() => {
     const handleMove = (event: PointerEvent) => {
       if (isPlaying) return;
       if (!dragHandle && !dragSurfaceId) return;
-      const pos = getLocalPos(event.clientX, event.clientY);
+      let pos = getLocalPos(event.clientX, event.clientY);
       if (dragHandle) {
+        // Holding Alt bypasses snapping.
+        const snap = event.altKey ? null : getHandleSnap(dragHandle, pos);
+        if (snap) pos = snap.point;
+        setSnapGuides(snap?.guides ?? []);
+        pos = toSurfaceSpace(dragHandle.surfaceId, pos);
         setSurfaces((prev) => prev.map((surface) => {
           if (surface.id !== dragHandle.surfaceId) return surface;
           if (dragHandle.mode === "mask") {
-            const maskPoints = surface.maskPoints ? [...surface.maskPoints] : [];
-            if (maskPoints[dragHandle.index]) maskPoints[dragHandle.index] = pos;
-            return { ...surface, maskPoints };
+            const previous = getEditablePoints(surface, dragHandle.maskId);
+            if (!previous || !previous[dragHandle.index]) return surface;
+            const { index, control, maskId } = dragHandle;
+            let next: Surface;
+            if (control) {
+              next = updateEditableMask(surface, maskId, (mask) => ({
+                ...mask,
+                curves: mask.curves?.map((curve, segment) => (
+                  curve && segment === index ? { ...curve, [control]: pos } : curve
+                ))
+              }));
+            } else {
+              // Tangents travel with their anchor point.
+              const dx = pos.x - previous[index].x;
+              const dy = pos.y - previous[index].y;
+              const before = (index - 1 + previous.length) % previous.length;
+              const points = [...previous];
+              points[index] = pos;
+              next = updateEditableMask(withEditablePoints(surface, maskId, points), maskId, (mask) => ({
+                ...mask,
+                curves: mask.curves?.map((curve, segment) => {
+                  if (!curve) return curve;
+                  if (segment === index) return { ...curve, c1: { x: curve.c1.x + dx, y: curve.c1.y + dy } };
+                  if (segment === before) return { ...curve, c2: { x: curve.c2.x + dx, y: curve.c2.y + dy } };
+                  return curve;
+                })
+              }));
+            }
+            return isMaskRejected(surface, next, maskId) ? surface : next;
+          }
+          if (dragHandle.mode === "rotate") {
+            const center = getQuadCenter(surface.quad);
+            if (pos.x === center.x && pos.y === center.y) return surface;
+            // The handle sits above the top edge, so straight up is 0°.
+            let rotation = (Math.atan2(pos.y - center.y, pos.x - center.x) * 180) / Math.PI + 90;
+            if (event.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+            return { ...surface, rotation: normalizeRotation(rotation) };
           }
           if (dragHandle.mode === "scale") {
             const center = getQuadCenter(surface.quad);
             const baseCorner = surface.quad[dragHandle.index];
+            const local = rotatePoint(pos, -surface.rotation, center);
             let nextScaleX = baseCorner.x !== center.x
-              ? (pos.x - center.x) / (baseCorner.x - center.x)
+              ? (local.x - center.x) / (baseCorner.x - center.x)
               : surface.scaleX;
             let nextScaleY = baseCorner.y !== center.y
-              ? (pos.y - center.y) / (baseCorner.y - center.y)
+              ? (local.y - center.y) / (baseCorner.y - center.y)
               : surface.scaleY;
             if (!Number.isFinite(nextScaleX)) nextScaleX = surface.scaleX;
             if (!Number.isFinite(nextScaleY)) nextScaleY = surface.scaleY;
@@ -1149,15 +2977,40 @@ export default function App() {
               scaleY: clampScale(nextScaleY)
             };
           }
+          // Handles are drawn on the transformed quad; undo rotation, then scale.
           const center = getQuadCenter(surface.quad);
-          const unscaled = unscalePoint(pos, center, surface.scaleX, surface.scaleY);
-          const quad = [...surface.quad];
+          const unscaled = unscalePoint(rotatePoint(pos, -surface.rotation, center), center, surface.scaleX, surface.scaleY);
+          if (dragHandle.mode === "mesh") {
+            if (!surface.mesh || !surface.mesh.points[dragHandle.index]) return surface;
+            const points = [...surface.mesh.points];
+            points[dragHandle.index] = unscaled;
+            const corner = getMeshCornerIndices(surface.mesh).indexOf(dragHandle.index);
+            const quad = [...surface.quad];
+            if (corner >= 0) quad[corner] = unscaled;
+            return { ...surface, quad, mesh: { ...surface.mesh, points } } as Surface;
+          }
+          const quad = [...surface.quad] as Quad;
           quad[dragHandle.index] = unscaled;
-          return { ...surface, quad } as Surface;
+          if (surface.mesh) {
+            try {
+              const mesh = transformMesh(surface.mesh, computeHomographyQuadToQuad(surface.quad, quad));
+              const points = [...mesh.points];
+              getMeshCornerIndices(surface.mesh).forEach((meshIndex, corner) => {
+                points[meshIndex] = quad[corner];
+              });
+              return { ...surface, quad, mesh: { ...mesh, points } };
+            } catch {
+              const points = [...surface.mesh.points];
+              points[getMeshCornerIndices(surface.mesh)[dragHandle.index]] = unscaled;
+              return { ...surface, quad, mesh: { ...surface.mesh, points } };
+            }
+          }
+          return { ...surface, quad };
         }));
         return;
       }
       if (dragSurfaceId && lastPos) {
+        pos = toSurfaceSpace(dragSurfaceId, pos);
         const dx = pos.x - lastPos.x;
         const dy = pos.y - lastPos.y;
         setSurfaces((prev) => prev.map((surface) => {
@@ -1167,13 +3020,27 @@ export default function App() {
           const maskPoints = surface.maskPoints
             ? surface.maskPoints.map((p) => ({ x: p.x + dx, y: p.y + dy }))
             : undefined;
-          return { ...surface, quad, maskPoints };
+          const masks = surface.masks?.map((mask) => ({
+            ...mask,
+            polygon: mask.polygon.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+            curves: mask.curves?.map((curve) => (curve
+              ? {
+                c1: { x: curve.c1.x + dx, y: curve.c1.y + dy },
+                c2: { x: curve.c2.x + dx, y: curve.c2.y + dy }
+              }
+              : null))
+          }));
+          const mesh = surface.mesh
+            ? { ...surface.mesh, points: surface.mesh.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) }
+            : undefined;
+          return { ...surface, quad, maskPoints, masks, mesh };
         }));
         setLastPos(pos);
       }
     };
 
     const handleUp = () => {
+      setSnapGuides([]);
       setDragHandle(null);
       setDragSurfaceId(null);
       setLastPos(null);
@@ -1194,12 +3061,37 @@ export default function App() {
       window.removeEventListener("pointermove", handleMove);
       window.removeEventListener("pointerup", handleUp);
     };
-  }, [dragHandle, dragSurfaceId, lastPos, getLocalPos, isPlaying]);
+  }, [dragHandle, dragSurfaceId, lastPos, getLocalPos, getHandleSnap, toSurfaceSpace, isPlaying]);
+
+  useEffect(() => {
+    if (!keystoneDrag) return;
+    const rect = outputRects.find(({ output }) => output.id === keystoneDrag.outputId)?.rect;
+    if (!rect) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const pos = getLocalPos(event.clientX, event.clientY);
+      updateKeystoneCorner(keystoneDrag.outputId, keystoneDrag.index, {
+        x: (pos.x - rect.x) / rect.width,
+        y: (pos.y - rect.y) / rect.height
+      });
+    };
+    const handleUp = () => setKeystoneDrag(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [keystoneDrag, outputRects, getLocalPos, updateKeystoneCorner]);
 
   useEffect(() => {
     const handleKey = (event: KeyboardEvent) => {
       if (["INPUT", "TEXTAREA", "SELECT"].includes((event.target as HTMLElement).tagName)) return;
-      if (event.key === "Escape") setSelectedId(null);
+      if (event.key === "Escape") {
+        setSelectedId(null);
+        setSelectedGroupId(null);
+      }
       if (event.key === "Delete" || event.key === "Backspace") {
         if (selectedId && !isPlaying) removeSurface(selectedId);
       }
@@ -1253,6 +3145,21 @@ export default function App() {
     };
   }, [isPlaying, currentTime, playConfig]);
 
+  useEffect(() => {
+    if (!sceneFade) return;
+    let frame = 0;
+    const step = () => {
+      setSceneFade((prev) => {
+        if (!prev) return prev;
+        const progress = Math.min((performance.now() - prev.start) / (prev.duration * 1000), 1);
+        return progress >= 1 ? null : { ...prev, progress };
+      });
+      frame = window.requestAnimationFrame(step);
+    };
+    frame = window.requestAnimationFrame(step);
+    return () => window.cancelAnimationFrame(frame);
+  }, [sceneFade?.start]);
+
   const getMaxDuration = () => {
     return surfaces.reduce((max, surface) => {
       const end = surface.timelineStart + surface.timelineDuration;
@@ -1266,155 +3173,887 @@ export default function App() {
     setIsPlaying(true);
   };
 
-  const stopPlayback = () => setIsPlaying(false);
+  const stopPlayback = () => {
+    setIsPlaying(false);
+    setSceneFade(null);
+    setCueFiredAt(null);
+  };
 
   const resetPlayback = () => {
     setIsPlaying(false);
+    setSceneFade(null);
+    setCueFiredAt(null);
+    setCurrentCueId(null);
     setCurrentTime(0);
   };
 
-  const toggleFullscreen = () => {
-    if (!document.fullscreenElement) {
-      document.documentElement.requestFullscreen().catch(() => undefined);
+  const currentScenes = useMemo(() => scenes.map((scene) => (
+    scene.id === activeSceneId ? { ...scene, surfaces, playConfig } : scene
+  )), [scenes, activeSceneId, surfaces, playConfig]);
+
+  const allSurfaces = useMemo(() => currentScenes.flatMap((scene) => scene.surfaces), [currentScenes]);
+  const activeScene = currentScenes.find((scene) => scene.id === activeSceneId);
+
+  // During playback the new scene starts at 0 and, unless it cuts, fades in over
+  // the outgoing one.
+  const switchScene = (id: string, transition?: SceneTransition) => {
+    const next = currentScenes.find((scene) => scene.id === id);
+    if (!next || id === activeSceneId) return;
+    const { type, duration } = transition ?? next.transition;
+    setScenes(currentScenes);
+    if (isPlaying && type === "crossfade" && duration > 0) {
+      setSceneFade({
+        surfaces: sampledSurfaces.filter((surface) => surface.visible && isSurfaceActive(surface, true, currentTime)),
+        time: currentTime,
+        start: performance.now(),
+        duration,
+        progress: 0
+      });
     } else {
-      document.exitFullscreen().catch(() => undefined);
+      setSceneFade(null);
     }
+    activateScene(next);
   };
 
-  const ensureMaskMode = () => {
-    if (!selectedSurface) return;
-    if (!selectedSurface.maskPoints || selectedSurface.maskPoints.length === 0) {
-      updateSurface(selectedSurface.id, { maskPoints: [...getRenderQuad(selectedSurface)] });
-    }
-    setEditMode("mask");
+  const activateScene = (scene: SceneState) => {
+    setActiveSceneId(scene.id);
+    setSurfaces(scene.surfaces);
+    setPlayConfig(scene.playConfig);
+    setSelectedId(null);
+    setCurrentTime(0);
   };
 
-  const clearMask = () => {
-    if (!selectedSurface) return;
-    updateSurface(selectedSurface.id, { maskPoints: undefined });
-    setEditMode("perspective");
+  const addScene = () => {
+    const scene = createScene(`${SCENE_NAME} ${scenes.length + 1}`);
+    setScenes([...currentScenes, scene]);
+    setSceneFade(null);
+    activateScene(scene);
   };
 
-  const resetMask = () => {
-    if (!selectedSurface) return;
-    updateSurface(selectedSurface.id, { maskPoints: [...getRenderQuad(selectedSurface)] });
+  const updateScene = (id: string, updates: Partial<Pick<SceneState, "name" | "transition">>) => {
+    setScenes((prev) => prev.map((scene) => (scene.id === id ? { ...scene, ...updates } : scene)));
   };
 
-  const handleFileUpload = (event: ChangeEvent<HTMLInputElement>, shape: Shape) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      if (file.type.startsWith("video/")) {
-        const video = document.createElement("video");
-        video.preload = "metadata";
-        video.onloadedmetadata = () => {
-          const w = video.videoWidth || DEFAULT_SIZE.width;
-          const h = video.videoHeight || DEFAULT_SIZE.height;
-          const scale = 420 / Math.max(w, h);
-          addSurface(
-            SurfaceType.VIDEO,
-            result,
-            shape,
-            w * scale,
-            h * scale,
-            video.duration || 10
-          );
-        };
-        video.src = result;
-      } else if (file.type.startsWith("image/")) {
-        const img = new Image();
-        img.onload = () => {
-          const scale = 420 / Math.max(img.width, img.height);
-          addSurface(
-            SurfaceType.IMAGE,
-            result,
-            shape,
-            img.width * scale,
-            img.height * scale
-          );
-        };
-        img.src = result;
-      }
-    };
-    reader.readAsDataURL(file);
+  const removeScene = (id: string) => {
+    if (scenes.length <= 1) return;
+    if (id === activeSceneId) {
+      const next = currentScenes.find((scene) => scene.id !== id);
+      if (!next) return;
+      setSceneFade(null);
+      activateScene(next);
+    }
+    setScenes((prev) => prev.filter((scene) => scene.id !== id));
+    setCues((prev) => prev.filter((cue) => cue.sceneId !== id));
   };
 
-  const exportProject = () => {
-    const blob = new Blob([JSON.stringify(surfaces, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const anchor = document.createElement("a");
-    anchor.href = url;
-    anchor.download = "openvisionmatrix-project.json";
-    anchor.click();
-    URL.revokeObjectURL(url);
+  const currentCueIndex = cues.findIndex((cue) => cue.id === currentCueId);
+  const selectedCue = cues.find((cue) => cue.id === selectedCueId);
+
+  // Same-scene cues jump without a fade; fades only blend between scenes.
+  const fireCue = (index: number) => {
+    const cue = cues[index];
+    if (!cue) return;
+    if (cue.sceneId !== activeSceneId) {
+      switchScene(cue.sceneId, { type: cue.fade > 0 ? "crossfade" : "cut", duration: cue.fade });
+    }
+    setCurrentTime(cue.time);
+    setIsPlaying(true);
+    setCurrentCueId(cue.id);
+    setCueFiredAt(Date.now());
   };
+  const fireCueRef = useRef(fireCue);
+  fireCueRef.current = fireCue;
 
-  const importProject = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const parsed = JSON.parse(reader.result as string) as Partial<Surface>[];
-        if (Array.isArray(parsed)) {
-          const normalized = parsed.map((surface, index) => ({
-            ...surface,
-            id: surface.id ?? createId(),
-            name: surface.name ?? `Surface ${index + 1}`,
-            scaleX: surface.scaleX ?? 1,
-            scaleY: surface.scaleY ?? 1,
-            scaleMode: surface.scaleMode ?? "uniform",
-            isFullscreen: surface.isFullscreen ?? false,
-            fullscreenFit: surface.fullscreenFit ?? "contain",
-            fullscreenAlign: surface.fullscreenAlign ?? "center",
-            glowColor: surface.glowColor ?? "#38bdf8",
-            liveVideo: surface.type === SurfaceType.LIVE_VIDEO ? (surface.liveVideo ?? {}) : surface.liveVideo,
-            locked: surface.locked ?? false
-          })) as Surface[];
-          setSurfaces(normalized);
-          setSelectedId(null);
-        }
-      } catch (error) {
-        console.error("Invalid project file", error);
+  const goCue = () => fireCue(currentCueIndex + 1);
+  const backCue = () => {
+    if (currentCueIndex > 0) fireCue(currentCueIndex - 1);
+  };
+
+  const getFollowRemaining = (): number | null => {
+    const cue = cues[currentCueIndex];
+    if (!cue || cue.autoFollow === undefined || cueFiredAt === null || currentCueIndex + 1 >= cues.length) return null;
+    return Math.max(0, (cueFiredAt - Date.now()) / 1000 + cue.fade + cue.autoFollow);
+  };
+
+  useEffect(() => {
+    const remaining = getFollowRemaining();
+    if (remaining === null) return;
+    const next = currentCueIndex + 1;
+    const timer = window.setTimeout(() => fireCueRef.current(next), remaining * 1000);
+    return () => window.clearTimeout(timer);
+  }, [cues, currentCueIndex, cueFiredAt]);
+
+  // Space is GO and Shift+Space is BACK while the operator view is open. Key-up is
+  // blocked too, so a focused button is not clicked as well.
+  useEffect(() => {
+    if (!showOperator) return;
+    const isSpace = (event: KeyboardEvent) => (
+      event.key === " " && !["INPUT", "TEXTAREA", "SELECT"].includes((event.target as HTMLElement).tagName)
+    );
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isSpace(event)) return;
+      event.preventDefault();
+      if (event.repeat) return;
+      const index = event.shiftKey ? currentCueIndex - 1 : currentCueIndex + 1;
+      if (index >= 0) fireCueRef.current(index);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (isSpace(event)) event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [showOperator, currentCueIndex]);
+
+  const addCue = () => {
+    const cue: Cue = {
+      id: createId(),
+      number: Math.floor(Math.max(0, ...cues.map((item) => item.number))) + 1,
+      label: "",
+      sceneId: activeSceneId,
+      time: Math.round(currentTime * 10) / 10,
+      fade: activeScene?.transition.type === "crossfade" ? activeScene.transition.duration : 0
+    };
+    setCues((prev) => sortCues([...prev, cue]));
+    setSelectedCueId(cue.id);
+  };
+
+  const updateCue = (id: string, updates: Partial<Cue>) => {
+    setCues((prev) => sortCues(prev.map((cue) => (cue.id === id ? { ...cue, ...updates } : cue))));
+  };
+
+  const changeCueNumber = (id: string, value: string) => {
+    const number = Number(value);
+    const error = value.trim() === "" || !Number.isFinite(number) || number <= 0
+      ? "Die Cue-Nummer muss größer als 0 sein."
+      : cues.some((cue) => cue.id !== id && cue.number === number)
+        ? `Cue ${number} ist bereits vergeben.`
+        : null;
+    if (error) {
+      setCueNumberDraft({ id, value, error });
+      return;
+    }
+    setCueNumberDraft(null);
+    updateCue(id, { number });
+  };
+
+  const removeCue = (id: string) => {
+    setCues((prev) => prev.filter((cue) => cue.id !== id));
+    if (currentCueId === id) setCurrentCueId(null);
+  };
+
+  const toggleFullscreen = () => {
+    if (!document.fullscreenElement) {
+      document.documentElement.requestFullscreen().catch(() => undefined);
+    } else {
+      document.exitFullscreen().catch(() => undefined);
+    }
+  };
+
+  const addMask = (mode: MaskMode) => {
+    if (!selectedSurface) return;
+    const quad = [...getRenderQuad(selectedSurface)];
+    const mask: SurfaceMask = {
+      id: createId(),
+      mode,
+      polygon: mode === "exclude" ? shrinkPolygon(quad, 0.5) : quad
+    };
+    updateSurface(selectedSurface.id, { masks: [...(selectedSurface.masks ?? []), mask] });
+    setSelectedMaskId(mask.id);
+  };
+
+  const updateMask = (maskId: string, updates: Partial<SurfaceMask>) => {
+    if (!selectedSurface?.masks) return;
+    updateSurface(selectedSurface.id, {
+      masks: selectedSurface.masks.map((mask) => (mask.id === maskId ? { ...mask, ...updates } : mask))
+    });
+  };
+
+  const moveMask = (maskId: string, direction: -1 | 1) => {
+    if (!selectedSurface?.masks) return;
+    const index = selectedSurface.masks.findIndex((mask) => mask.id === maskId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= selectedSurface.masks.length) return;
+    const masks = [...selectedSurface.masks];
+    [masks[index], masks[target]] = [masks[target], masks[index]];
+    updateSurface(selectedSurface.id, { masks });
+  };
+
+  const removeMask = (maskId: string) => {
+    if (!selectedSurface?.masks) return;
+    const masks = selectedSurface.masks.filter((mask) => mask.id !== maskId);
+    updateSurface(selectedSurface.id, { masks: masks.length > 0 ? masks : undefined });
+  };
+
+  const ensureMaskMode = () => {
+    if (!selectedSurface) return;
+    if (selectedSurface.type === SurfaceType.LINE) {
+      if (!selectedSurface.maskPoints || selectedSurface.maskPoints.length === 0) {
+        updateSurface(selectedSurface.id, { maskPoints: [...getRenderQuad(selectedSurface)] });
       }
+    } else if (!selectedSurface.masks || selectedSurface.masks.length === 0) {
+      addMask("include");
+    }
+    setEditMode("mask");
+  };
+
+  const clearMask = () => {
+    if (!selectedSurface) return;
+    updateSurface(selectedSurface.id, { maskPoints: undefined, masks: undefined });
+    setEditMode("perspective");
+  };
+
+  const repairMask = () => {
+    if (!selectedSurface) return;
+    const points = getEditablePoints(selectedSurface, activeMask?.id);
+    if (!points) return;
+    // Curves are flattened first; repaired outlines may be reordered, so
+    // per-segment curves and feathers no longer line up and are dropped.
+    const repaired = repairPolygon(getMaskOutline(points, getEditableCurves(selectedSurface, activeMask?.id)));
+    if (!validatePolygon(repaired).ok) {
+      console.warn("Mask could not be repaired", points);
+      return;
+    }
+    setSurfaces((prev) => prev.map((surface) => (
+      surface.id === selectedSurface.id
+        ? updateEditableMask(withEditablePoints(surface, activeMask?.id, repaired), activeMask?.id, (mask) => ({
+          ...mask,
+          curves: undefined,
+          edgeFeather: undefined
+        }))
+        : surface
+    )));
+  };
+
+  const resetMask = () => {
+    if (!selectedSurface) return;
+    const quad = [...getRenderQuad(selectedSurface)];
+    setSurfaces((prev) => prev.map((surface) => (
+      surface.id === selectedSurface.id
+        ? updateEditableMask(withEditablePoints(surface, activeMask?.id, quad), activeMask?.id, (mask) => ({
+          ...mask,
+          curves: undefined,
+          edgeFeather: undefined
+        }))
+        : surface
+    )));
+  };
+
+  const ensureMeshMode = () => {
+    if (!selectedSurface) return;
+    if (!selectedSurface.mesh) {
+      try {
+        updateSurface(selectedSurface.id, {
+          mesh: createMeshFromQuad(selectedSurface.quad, DEFAULT_MESH_SIZE, DEFAULT_MESH_SIZE)
+        });
+      } catch (error) {
+        console.warn("Invalid quad for mesh", error);
+        return;
+      }
+    }
+    setEditMode("mesh");
+  };
+
+  const resizeMesh = (columns: number, rows: number) => {
+    if (!selectedSurface?.mesh) return;
+    const safeColumns = clamp(Math.round(columns) || 2, 2, MAX_MESH_SIZE);
+    const safeRows = clamp(Math.round(rows) || 2, 2, MAX_MESH_SIZE);
+    updateSurface(selectedSurface.id, { mesh: resampleMesh(selectedSurface.mesh, safeColumns, safeRows) });
+  };
+
+  const setMeshInterpolation = (interpolation: MeshInterpolation) => {
+    if (!selectedSurface?.mesh) return;
+    updateSurface(selectedSurface.id, { mesh: { ...selectedSurface.mesh, interpolation } });
+  };
+
+  const resetMesh = () => {
+    if (!selectedSurface?.mesh) return;
+    const { columns, rows, interpolation } = selectedSurface.mesh;
+    try {
+      updateSurface(selectedSurface.id, {
+        mesh: createMeshFromQuad(selectedSurface.quad, columns, rows, interpolation)
+      });
+    } catch (error) {
+      console.warn("Invalid quad for mesh", error);
+    }
+  };
+
+  const clearMesh = () => {
+    if (!selectedSurface) return;
+    updateSurface(selectedSurface.id, { mesh: undefined });
+    setEditMode("perspective");
+  };
+
+  const storeAsset = async (blob: Blob, name: string, hash?: string): Promise<AssetRef> => {
+    const { ref, blob: stored } = await addAsset(blob, name, hash);
+    setAssets((prev) => (prev.some((asset) => asset.id === ref.id) ? prev : [...prev, ref]));
+    setAssetUrls((prev) => (prev[ref.id] ? prev : { ...prev, [ref.id]: URL.createObjectURL(stored) }));
+    return ref;
+  };
+
+  const addAssetSurface = (asset: AssetRef, shape: Shape) => {
+    const width = asset.width || DEFAULT_SIZE.width;
+    const height = asset.height || DEFAULT_SIZE.height;
+    const scale = 420 / Math.max(width, height);
+    const surface = addSurface(
+      asset.kind === "video" ? SurfaceType.VIDEO : SurfaceType.IMAGE,
+      "",
+      shape,
+      width * scale,
+      height * scale,
+      asset.kind === "video" ? asset.duration || 10 : undefined
+    );
+    updateSurface(surface.id, { assetId: asset.id });
+    return surface;
+  };
+
+  const removeAsset = async (id: string) => {
+    if (allSurfaces.some((surface) => surface.assetId === id)) return;
+    try {
+      await deleteAsset(id);
+    } catch (error) {
+      console.warn("Asset could not be deleted", error);
+      return;
+    }
+    setAssets((prev) => prev.filter((asset) => asset.id !== id));
+    setAssetUrls((prev) => {
+      if (!prev[id]) return prev;
+      URL.revokeObjectURL(prev[id]);
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>, shape: Shape) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      addAssetSurface(await storeAsset(file, file.name), shape);
+    } catch (error) {
+      console.error("Asset import failed", error);
+    }
+  };
+
+  const exportProject = () => {
+    const meta = { ...projectMeta, updatedAt: new Date().toISOString() };
+    const project = createProjectDocument({ meta, scenes: currentScenes, activeSceneId, groups, cues, outputs, assets });
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${getProjectSlug(meta.name)}.json`);
+    setProjectMeta(meta);
+  };
+
+  const exportBundle = async () => {
+    const meta = { ...projectMeta, updatedAt: new Date().toISOString() };
+    const project = createProjectDocument({ meta, scenes: currentScenes, activeSceneId, groups, cues, outputs, assets });
+    setBundleBusy(true);
+    try {
+      const stored = await Promise.all((project.assets ?? []).map((asset) => getAsset(asset.id)));
+      const missing = (project.assets ?? []).filter((_, index) => !stored[index]);
+      if (missing.length > 0) console.warn("Assets missing from the store are not bundled", missing);
+      const blob = await createBundle(project, stored.filter((item): item is StoredAsset => Boolean(item)));
+      downloadBlob(blob, `${getProjectSlug(meta.name)}${BUNDLE_EXTENSION}`);
+      setProjectMeta(meta);
+    } catch (error) {
+      console.error("Bundle export failed", error);
+    } finally {
+      setBundleBusy(false);
+    }
+  };
+
+  const applyProject = (project: ProjectState) => {
+    const active = project.scenes.find((scene) => scene.id === project.activeSceneId) ?? project.scenes[0];
+    setProjectMeta(project.meta);
+    setScenes(project.scenes);
+    setSceneFade(null);
+    activateScene(active);
+    setGroups(project.groups);
+    setSelectedGroupId(null);
+    setCues(project.cues);
+    setSelectedCueId(null);
+    setCurrentCueId(null);
+    setOutputs(project.outputs);
+    setSelectedOutputId(null);
+    // Refs of assets missing from this browser's store stay listed as missing.
+    setAssets((prev) => [...prev, ...project.assets.filter((asset) => !prev.some((item) => item.id === asset.id))]);
+  };
+
+  const reviewLoadError = (source: string, fallbackName: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    setImportReview({
+      source,
+      fallbackName,
+      validation: {
+        ok: false,
+        issues: [{ path: "$", message }],
+        invalidSurfaces: [],
+        invalidOutputs: [],
+        invalidAssets: [],
+        invalidScenes: [],
+        invalidCues: [],
+        invalidGroups: []
+      }
+    });
+  };
+
+  // Older documents are migrated first; anything the validator rejects goes to review.
+  // Bundle issues (missing or corrupt assets) are reviewed alongside.
+  const loadProjectData = (data: unknown, source: string, fallbackName: string, bundleIssues: ValidationIssue[] = []) => {
+    let project: Project;
+    let migration: MigrationReport;
+    try {
+      const result = migrate(data, getSchemaVersion(data));
+      migration = result.report;
+      // Version 0 files carry no project name.
+      project = migration.fromVersion === 0 ? { ...result.project, name: fallbackName } : result.project;
+    } catch (error) {
+      reviewLoadError(source, fallbackName, error);
+      return;
+    }
+    const checked = validateProject(project, { validateQuad });
+    const validation = bundleIssues.length > 0
+      ? { ...checked, ok: false, issues: [...bundleIssues, ...checked.issues] }
+      : checked;
+    if (validation.ok) applyProject(readProjectDocument(project, validation, fallbackName));
+    if (!validation.ok || migration.changes.length > 0) {
+      setImportReview({ source, fallbackName, project, validation, migration });
+    }
+  };
+
+  const loadProject = (text: string, source: string, fallbackName: string) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      reviewLoadError(source, fallbackName, error);
+      return;
+    }
+    loadProjectData(data, source, fallbackName);
+  };
+
+  const loadBundle = async (file: File, fallbackName: string) => {
+    setBundleBusy(true);
+    try {
+      const { project, issues } = await importBundle(
+        file,
+        (blob, asset, name) => storeAsset(blob, name ?? asset.path, asset.hash)
+      );
+      loadProjectData(project, file.name, fallbackName, issues);
+    } catch (error) {
+      reviewLoadError(file.name, fallbackName, error);
+    } finally {
+      setBundleBusy(false);
+    }
+  };
+
+  const importProject = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (isBundleFile(file)) {
+      event.target.value = "";
+      loadBundle(file, file.name.replace(/\.[^.]+$/, ""));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      loadProject(reader.result as string, file.name, file.name.replace(/\.[^.]+$/, ""));
     };
     reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  // Closing the review resumes autosave, which would overwrite a rejected
+  // autosave with whatever is in the editor; keep a copy of it first.
+  const closeImportReview = () => {
+    if (importReview?.source === AUTOSAVE_SOURCE && !importReview.validation.ok) {
+      try {
+        const saved = localStorage.getItem(AUTOSAVE_KEY);
+        if (saved) localStorage.setItem(AUTOSAVE_BACKUP_KEY, saved);
+      } catch (error) {
+        console.warn("Rejected autosave could not be kept", error);
+      }
+    }
+    setImportReview(null);
   };
 
-  const handleWindowDrawingSave = (dataUrl: string) => {
+  const importValidParts = () => {
+    if (!importReview?.project) return;
+    applyProject(readProjectDocument(importReview.project, importReview.validation, importReview.fallbackName));
+    closeImportReview();
+  };
+
+  useEffect(() => {
+    let saved: string | null = null;
+    try {
+      saved = localStorage.getItem(AUTOSAVE_KEY);
+    } catch (error) {
+      console.warn("Autosave unavailable", error);
+    }
+    if (saved) loadProject(saved, AUTOSAVE_SOURCE, UNTITLED_PROJECT);
+  }, []);
+
+  // Paused while a review is open so an unconfirmed restore is not overwritten.
+  useEffect(() => {
+    if (importReview) return;
+    const timer = window.setTimeout(() => {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(createProjectDocument({
+          meta: projectMeta,
+          scenes: currentScenes,
+          activeSceneId,
+          groups,
+          cues,
+          outputs,
+          assets
+        })));
+      } catch (error) {
+        console.warn("Autosave failed", error);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [importReview, projectMeta, currentScenes, activeSceneId, groups, cues, outputs, assets]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: Record<string, string> = {};
+    listAssets()
+      .then((stored) => {
+        if (cancelled) return;
+        for (const { ref, blob } of stored) urls[ref.id] = URL.createObjectURL(blob);
+        setAssets((prev) => [
+          ...stored.map(({ ref }) => ref),
+          ...prev.filter((asset) => !stored.some(({ ref }) => ref.id === asset.id))
+        ]);
+        setAssetUrls((prev) => ({ ...urls, ...prev }));
+      })
+      .catch((error) => console.warn("Asset store unavailable", error));
+    return () => {
+      cancelled = true;
+      Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  // Older projects embed media as data URLs; move them into the asset store.
+  // Every scene is converted, not just the active one; a failed conversion is
+  // retried on the next change.
+  useEffect(() => {
+    for (const scene of currentScenes) {
+      for (const surface of scene.surfaces) {
+        if (surface.assetId || !surface.src.startsWith("data:")) continue;
+        if (surface.type !== SurfaceType.IMAGE && surface.type !== SurfaceType.VIDEO) continue;
+        const key = `${scene.id}:${surface.id}`;
+        if (convertingSurfaces.current.has(key)) continue;
+        convertingSurfaces.current.add(key);
+        const { id, src } = surface;
+        // Matching on the data URL as well leaves surfaces alone that changed meanwhile.
+        const attach = (list: Surface[], assetId: string) => list.map((item) => (
+          item.id === id && item.src === src ? { ...item, assetId, src: "" } : item
+        ));
+        fetch(src)
+          .then((response) => response.blob())
+          .then((blob) => storeAsset(blob, surface.name))
+          .then((asset) => {
+            setSurfaces((prev) => attach(prev, asset.id));
+            setScenes((prev) => prev.map((item) => ({ ...item, surfaces: attach(item.surfaces, asset.id) })));
+          })
+          .catch((error) => console.warn("Embedded media could not be stored", error))
+          .finally(() => convertingSurfaces.current.delete(key));
+      }
+    }
+  }, [currentScenes]);
+
+  useEffect(() => {
+    setLutError(null);
+  }, [selectedId]);
+
+  const selectedKeyframes = selectedSurface?.keyframes ?? [];
+  const currentKeyframe = selectedKeyframes.find((keyframe) => Math.abs(keyframe.time - currentTime) < KEYFRAME_EPSILON);
+
+  const addKeyframe = () => {
+    if (!selectedSurface) return;
+    const others = selectedKeyframes.filter((item) => Math.abs(item.time - currentTime) >= KEYFRAME_EPSILON);
+    const keyframe = createKeyframe(selectedSurface, currentTime, currentKeyframe?.easing ?? keyframeEasing, others);
+    updateSurface(selectedSurface.id, { keyframes: sortKeyframes([...others, keyframe]) });
+  };
+
+  const updateKeyframeEasing = (easing: Easing) => {
+    setKeyframeEasing(easing);
+    if (!selectedSurface || !currentKeyframe) return;
+    updateSurface(selectedSurface.id, {
+      keyframes: selectedKeyframes.map((item) => (item === currentKeyframe ? { ...item, easing } : item))
+    });
+  };
+
+  const removeKeyframe = (keyframe: Keyframe) => {
+    if (!selectedSurface) return;
+    const keyframes = selectedKeyframes.filter((item) => item !== keyframe);
+    updateSurface(selectedSurface.id, { keyframes: keyframes.length > 0 ? keyframes : undefined });
+  };
+
+  const loadKeyframe = (keyframe: Keyframe) => {
+    if (!selectedSurface || isPlaying) return;
+    setCurrentTime(keyframe.time);
+    setSurfaces((prev) => prev.map((surface) => (
+      surface.id === selectedSurface.id ? applyKeyframeSample(surface, keyframe) : surface
+    )));
+  };
+
+  const seekTimeline = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (isPlaying) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = clamp((event.clientX - rect.left) / rect.width, 0, 1);
+    setCurrentTime(fraction * Math.max(1, playConfig.loopDuration));
+  };
+
+  const updateColorCorrection = (updates: Partial<ColorCorrection>) => {
+    if (!selectedSurface) return;
+    updateSurface(selectedSurface.id, {
+      colorCorrection: { ...(selectedSurface.colorCorrection ?? createColorCorrection()), ...updates }
+    });
+  };
+
+  const importLut = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !selectedSurface) return;
+    const surfaceId = selectedSurface.id;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const lut = parseCubeLut(reader.result as string);
+        setLutError(null);
+        setSurfaces((prev) => prev.map((surface) => (
+          surface.id === surfaceId
+            ? {
+              ...surface,
+              colorCorrection: {
+                ...(surface.colorCorrection ?? createColorCorrection()),
+                lut: { ...lut, title: lut.title ?? file.name }
+              }
+            }
+            : surface
+        )));
+      } catch (error) {
+        setLutError(error instanceof Error ? error.message : "LUT konnte nicht gelesen werden.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleWindowDrawingSave = async (dataUrl: string) => {
     setShowWindowDrawing(false);
-    const surface = addSurface(
-      SurfaceType.IMAGE,
-      dataUrl,
-      "rect",
-      520,
-      520
-    );
-    updateSurface(surface.id, { animationSpeed: 4, animationType: "spin3d", name: "Zeichnung" });
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      const asset = await storeAsset(blob, "Zeichnung.png");
+      const surface = addSurface(SurfaceType.IMAGE, "", "rect", 520, 520);
+      updateSurface(surface.id, { assetId: asset.id, animationSpeed: 4, animationType: "spin3d", name: "Zeichnung" });
+    } catch (error) {
+      console.error("Drawing could not be stored", error);
+    }
   };
 
-  const handleStageDrawingSave = (dataUrl: string, rect: { x: number; y: number; w: number; h: number }) => {
+  const handleStageDrawingSave = async (dataUrl: string, rect: { x: number; y: number; w: number; h: number }) => {
     setShowStageDrawing(false);
-    const surface = addSurface(
-      SurfaceType.IMAGE,
-      dataUrl,
-      "rect",
-      rect.w,
-      rect.h,
-      undefined,
-      { x: rect.x, y: rect.y }
-    );
-    updateSurface(surface.id, { animationSpeed: 5, animationType: "spin3d", name: "Stage Sketch" });
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      const asset = await storeAsset(blob, "Stage Sketch.png");
+      const surface = addSurface(SurfaceType.IMAGE, "", "rect", rect.w, rect.h, undefined, { x: rect.x, y: rect.y });
+      updateSurface(surface.id, { assetId: asset.id, animationSpeed: 5, animationType: "spin3d", name: "Stage Sketch" });
+    } catch (error) {
+      console.error("Drawing could not be stored", error);
+    }
   };
 
   const handleSelect = (id: string) => {
     if (!isPlaying) setSelectedId(id);
   };
 
-  const activeMaskPoints = selectedSurface?.maskPoints || [];
+  const clearListDrag = () => {
+    setDragListId(null);
+    setDragOverId(null);
+  };
+
+  const getIndent = (depth: number): CSSProperties | undefined => (
+    depth > 0 ? { marginLeft: depth * GROUP_INDENT } : undefined
+  );
+
+  // Dropping a surface onto another one also moves it into that surface's group.
+  const renderSurfaceItem = (surface: Surface, depth: number) => (
+    <div
+      key={surface.id}
+      className={`surface-item ${surface.id === selectedId ? "active" : ""} ${surface.id === dragOverId ? "drag-over" : ""}`}
+      style={getIndent(depth)}
+      onClick={() => handleSelect(surface.id)}
+      draggable
+      onDragStart={(event) => {
+        setDragListId(surface.id);
+        event.dataTransfer.effectAllowed = "move";
+        event.dataTransfer.setData("text/plain", surface.id);
+      }}
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (dragOverId !== surface.id) setDragOverId(surface.id);
+        event.dataTransfer.dropEffect = "move";
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        const sourceId = event.dataTransfer.getData("text/plain") || dragListId;
+        if (sourceId) {
+          reorderSurfaces(sourceId, surface.id);
+          setSurfaceGroup(sourceId, surface.groupId);
+        }
+        clearListDrag();
+      }}
+      onDragEnd={clearListDrag}
+    >
+      <div className="surface-meta">
+        <strong>{surface.name}</strong>
+        <span>{surface.type}</span>
+      </div>
+      <div className="surface-actions">
+        <button
+          className={surface.locked ? "muted" : ""}
+          onClick={(event) => {
+            event.stopPropagation();
+            updateSurface(surface.id, { locked: !surface.locked });
+          }}
+          title={surface.locked ? "Gesperrt" : "Entsperrt"}
+        >
+          {surface.locked ? "🔒" : "🔓"}
+        </button>
+        <button
+          className={surface.visible ? "" : "muted"}
+          onClick={(event) => {
+            event.stopPropagation();
+            updateSurface(surface.id, { visible: !surface.visible });
+          }}
+        >
+          {surface.visible ? "👁" : "🚫"}
+        </button>
+        <button
+          onClick={(event) => {
+            event.stopPropagation();
+            removeSurface(surface.id);
+          }}
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderGroupItem = (group: SurfaceGroup, depth: number) => {
+    const ids = collectGroupIds(groups, group.id);
+    const memberCount = surfaces.filter((surface) => surface.groupId !== undefined && ids.has(surface.groupId)).length;
+    return (
+      <div
+        key={group.id}
+        className={`surface-item group-item ${group.id === selectedGroupId ? "active" : ""} ${group.id === dragOverId ? "drag-over" : ""}`}
+        style={getIndent(depth)}
+        onClick={() => selectGroup(group.id)}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (dragOverId !== group.id) setDragOverId(group.id);
+          event.dataTransfer.dropEffect = "move";
+        }}
+        onDrop={(event) => {
+          event.preventDefault();
+          const sourceId = event.dataTransfer.getData("text/plain") || dragListId;
+          if (sourceId) setSurfaceGroup(sourceId, group.id);
+          clearListDrag();
+        }}
+      >
+        <div className="surface-meta">
+          <strong>
+            <button
+              className="group-toggle"
+              onClick={(event) => {
+                event.stopPropagation();
+                updateGroup(group.id, { collapsed: !group.collapsed });
+              }}
+              title={group.collapsed ? "Aufklappen" : "Zuklappen"}
+            >
+              {group.collapsed ? "▸" : "▾"}
+            </button>
+            {group.name}
+          </strong>
+          <span>
+            {GROUP_NAME} · {memberCount} Surfaces{group.transform ? " · transformiert" : ""}
+          </span>
+        </div>
+        <div className="surface-actions">
+          <button
+            className={group.locked ? "muted" : ""}
+            onClick={(event) => {
+              event.stopPropagation();
+              updateGroup(group.id, { locked: !group.locked });
+            }}
+            title={group.locked ? "Gesperrt" : "Entsperrt"}
+          >
+            {group.locked ? "🔒" : "🔓"}
+          </button>
+          <button
+            className={group.visible ? "" : "muted"}
+            onClick={(event) => {
+              event.stopPropagation();
+              updateGroup(group.id, { visible: !group.visible });
+            }}
+          >
+            {group.visible ? "👁" : "🚫"}
+          </button>
+          <button
+            onClick={(event) => {
+              event.stopPropagation();
+              removeGroup(group.id);
+            }}
+            title="Gruppe auflösen"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Nested groups come before the surfaces of a group; collapsed groups hide both.
+  const renderSurfaceTree = (parentId: string | undefined, depth: number): ReactElement[] => [
+    ...groups
+      .filter((group) => group.parentId === parentId)
+      .flatMap((group) => [
+        renderGroupItem(group, depth),
+        ...(group.collapsed ? [] : renderSurfaceTree(group.id, depth + 1))
+      ]),
+    ...surfaces.filter((surface) => surface.groupId === parentId).map((surface) => renderSurfaceItem(surface, depth))
+  ];
+
+  const groupOptions = getGroupTree(groups);
+  const lockedByGroup = selectedEntry !== undefined && !selectedEntry.locked && isSurfaceLocked(selectedEntry);
+
+  const activeMaskPoints = (selectedSurface && getEditablePoints(selectedSurface, activeMask?.id)) || [];
+  const activeMaskCurves = selectedSurface ? getEditableCurves(selectedSurface, activeMask?.id) : undefined;
+  const maskValidation = activeMaskPoints.length > 0 && selectedSurface?.type !== SurfaceType.LINE
+    ? validatePolygon(getMaskOutline(activeMaskPoints, activeMaskCurves))
+    : null;
+  // Handles of grouped surfaces are drawn in the group's space and transformed
+  // as a whole, so they line up with the warped surface.
+  const getGroupOverlayStyle = (H: Matrix3x3 | null | undefined): CSSProperties | undefined => (
+    H ? { transform: cssMatrix3dToString(homographyToCssMatrix3d(H)), transformOrigin: "0 0" } : undefined
+  );
   const selectedRenderQuad = selectedSurface ? getRenderQuad(selectedSurface) : null;
+  const selectedRenderMesh = selectedSurface ? getRenderMesh(selectedSurface) : undefined;
+  const rotationAnchor = selectedRenderQuad
+    ? { x: (selectedRenderQuad[0].x + selectedRenderQuad[1].x) / 2, y: (selectedRenderQuad[0].y + selectedRenderQuad[1].y) / 2 }
+    : null;
+  const rotationHandle = rotationAnchor && selectedSurface
+    ? rotatePoint(
+      { x: rotationAnchor.x, y: rotationAnchor.y - ROTATION_HANDLE_OFFSET },
+      selectedSurface.rotation,
+      rotationAnchor
+    )
+    : null;
   const liveInfo = selectedSurface ? liveMeta[selectedSurface.id] : undefined;
   const whiteBalanceModes = liveInfo?.capabilities?.whiteBalanceMode ?? [];
   const exposureModes = liveInfo?.capabilities?.exposureMode ?? [];
@@ -1423,6 +4062,90 @@ export default function App() {
     [mediaDevices]
   );
 
+  const handleMediaElement = useCallback((id: string, element: MediaElement | null) => {
+    if (element) {
+      mediaElementsRef.current.set(id, element);
+    } else {
+      mediaElementsRef.current.delete(id);
+    }
+  }, []);
+
+  const getRasterSource = (surface: Surface) => {
+    const key = JSON.stringify([
+      surface.type,
+      surface.src,
+      surface.width,
+      surface.height,
+      surface.shape,
+      surface.lineWidth,
+      surface.textContent,
+      surface.fontSize,
+      surface.isVertical,
+      surface.type === SurfaceType.LINE ? surface.maskPoints : undefined,
+      surface.type === SurfaceType.LINE ? stageSize : undefined
+    ]);
+    const cached = rasterCacheRef.current.get(surface.id);
+    if (cached && cached.key === key) return cached.canvas;
+    const canvas = rasterizeSurface(surface, stageSize.width, stageSize.height);
+    rasterCacheRef.current.set(surface.id, { key, canvas });
+    return canvas;
+  };
+
+  const toWebGLLayers = (surface: Surface, time: number): WebGLLayer[] => {
+    if (!surface.visible || !isSurfaceActive(surface, isPlaying, time)) return [];
+    const isPolyline = surface.type === SurfaceType.LINE && !!surface.maskPoints && surface.maskPoints.length >= 2;
+    const maskRegion = maskRegions.get(surface.id);
+    const maskImage = maskImages.get(surface.id);
+    if (maskRegion && maskRegion.length === 0 && !maskImage) return [];
+    const base = {
+      id: surface.id,
+      opacity: surface.opacity,
+      zIndex: surface.zIndex,
+      shape: !surface.masks?.length && surface.type !== SurfaceType.LINE ? surface.shape : "rect",
+      clip: maskImage ? undefined : maskRegion,
+      mask: maskImage?.canvas,
+      colorCorrection: surface.colorCorrection,
+      blendMode: surface.blendMode
+    } as const;
+
+    if (isPolyline) {
+      const canvas = getRasterSource(surface);
+      return canvas ? [{
+        ...base,
+        width: stageSize.width,
+        height: stageSize.height,
+        quad: quadFromRect(0, 0, stageSize.width, stageSize.height),
+        source: canvas
+      }] : [];
+    }
+
+    const geometry = {
+      width: surface.width,
+      height: surface.height,
+      quad: getRenderQuad(surface),
+      mesh: getRenderMesh(surface)
+    };
+
+    switch (surface.type) {
+      case SurfaceType.COLOR:
+        return [{ ...base, ...geometry, color: parseHexColor(surface.src) }];
+      case SurfaceType.TEXT:
+      case SurfaceType.LINE: {
+        const canvas = getRasterSource(surface);
+        return canvas ? [{ ...base, ...geometry, source: canvas }] : [];
+      }
+      default: {
+        const element = mediaElementsRef.current.get(surface.id);
+        return element ? [{ ...base, ...geometry, source: element, fit: "cover" }] : [];
+      }
+    }
+  };
+
+  const getWebGLLayers = (): WebGLLayer[] => [
+    ...fadingSurfaces.flatMap((surface) => toWebGLLayers(surface, sceneFade?.time ?? currentTime)),
+    ...displaySurfaces.flatMap((surface) => toWebGLLayers(surface, currentTime))
+  ];
+
   const handleLiveMeta = useCallback((id: string, meta: { capabilities?: MediaTrackCapabilities; settings?: MediaTrackSettings; error?: string }) => {
     setLiveMeta((prev) => ({ ...prev, [id]: { ...prev[id], ...meta } }));
     if (meta.settings && mediaDevices.length === 0) {
@@ -1457,11 +4180,30 @@ export default function App() {
         )}
         <div className="topbar-actions">
           <button className="ghost" onClick={() => setShowPlayModal(true)}>Playback</button>
+          <button className="ghost" onClick={() => setShowOperator(true)}>Operator</button>
           <button className="ghost" onClick={toggleFullscreen}>Fullscreen</button>
+          <select
+            className="ghost"
+            value={rendererMode}
+            onChange={(event) => setRendererMode(event.target.value as RendererMode)}
+            title="Renderer"
+          >
+            <option value="css">CSS</option>
+            <option value="webgl">WebGL</option>
+            <option value="split">CSS | WebGL</option>
+          </select>
           <button className="ghost" onClick={exportProject}>Export</button>
+          <button className="ghost" onClick={exportBundle} disabled={bundleBusy} title="Projekt mit allen Medien">
+            {bundleBusy ? "Bundle …" : "Bundle"}
+          </button>
           <label className="ghost file">
             Import
-            <input type="file" accept="application/json" onChange={importProject} />
+            <input
+              type="file"
+              accept={`application/json,.json,${BUNDLE_EXTENSION},application/zip`}
+              onChange={importProject}
+              disabled={bundleBusy}
+            />
           </label>
           <a
             className="ghost"
@@ -1474,8 +4216,220 @@ export default function App() {
         </div>
       </header>
 
-      <div className="workspace">
-        <aside className="panel left">
+      <div className="workspace">
+        <aside className="panel left">
+          <section>
+            <h2>Projekt</h2>
+            <label className="field">
+              Name
+              <input
+                value={projectMeta.name}
+                onChange={(event) => setProjectMeta((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <p className="empty">
+              Erstellt {formatTimestamp(projectMeta.createdAt)} · Gespeichert {formatTimestamp(projectMeta.updatedAt)}
+            </p>
+          </section>
+
+          <section>
+            <h2>Szenen</h2>
+            <div className="surface-list">
+              {currentScenes.map((scene) => (
+                <div
+                  key={scene.id}
+                  className={`surface-item ${scene.id === activeSceneId ? "active" : ""}`}
+                  onClick={() => switchScene(scene.id)}
+                >
+                  <div className="surface-meta">
+                    <strong>{scene.name}</strong>
+                    <span>
+                      {scene.surfaces.length} Surfaces ·{" "}
+                      {scene.transition.type === "cut" ? "Schnitt" : `Überblendung ${scene.transition.duration} s`}
+                    </span>
+                  </div>
+                  <div className="surface-actions">
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        removeScene(scene.id);
+                      }}
+                      disabled={scenes.length <= 1}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="inline-actions">
+              <button className="ghost" onClick={addScene}>+ Szene</button>
+            </div>
+            {activeScene && (
+              <>
+                <label className="field">
+                  Name
+                  <input
+                    value={activeScene.name}
+                    onChange={(event) => updateScene(activeScene.id, { name: event.target.value })}
+                  />
+                </label>
+                <div className="field-row">
+                  <label className="field">
+                    Übergang
+                    <select
+                      value={activeScene.transition.type}
+                      onChange={(event) => updateScene(activeScene.id, {
+                        transition: { ...activeScene.transition, type: event.target.value as SceneTransition["type"] }
+                      })}
+                    >
+                      <option value="crossfade">Überblendung</option>
+                      <option value="cut">Schnitt</option>
+                    </select>
+                  </label>
+                  <label className="field">
+                    Dauer (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={activeScene.transition.duration}
+                      disabled={activeScene.transition.type === "cut"}
+                      onChange={(event) => updateScene(activeScene.id, {
+                        transition: { ...activeScene.transition, duration: Math.max(0, Number(event.target.value)) }
+                      })}
+                    />
+                  </label>
+                </div>
+                <p className="empty">Der Übergang gilt beim Wechsel in diese Szene während des Playbacks.</p>
+              </>
+            )}
+          </section>
+
+          <section>
+            <h2>Cues</h2>
+            {cues.length === 0 ? (
+              <p className="empty">Noch keine Cues. Ein Cue springt zu Szene und Zeit.</p>
+            ) : (
+              <div className="surface-list">
+                {cues.map((cue) => (
+                  <div
+                    key={cue.id}
+                    className={`surface-item ${cue.id === selectedCueId ? "active" : ""}`}
+                    onClick={() => setSelectedCueId(cue.id)}
+                  >
+                    <div className="surface-meta">
+                      <strong>{cue.id === currentCueId ? "▶ " : ""}{formatCue(cue)}</strong>
+                      <span>
+                        {currentScenes.find((scene) => scene.id === cue.sceneId)?.name} · {cue.time.toFixed(1)} s · Fade {cue.fade} s
+                        {cue.autoFollow !== undefined ? ` · Follow ${cue.autoFollow} s` : ""}
+                      </span>
+                    </div>
+                    <div className="surface-actions">
+                      <button
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          removeCue(cue.id);
+                        }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="inline-actions">
+              <button className="ghost" onClick={addCue}>+ Cue</button>
+              <button className="ghost" onClick={() => setShowOperator(true)} disabled={cues.length === 0}>
+                Operator
+              </button>
+            </div>
+            {selectedCue && (
+              <>
+                <div className="field-row">
+                  <label className="field">
+                    Nummer
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={cueNumberDraft?.id === selectedCue.id ? cueNumberDraft.value : selectedCue.number}
+                      onChange={(event) => changeCueNumber(selectedCue.id, event.target.value)}
+                      onBlur={() => setCueNumberDraft(null)}
+                    />
+                  </label>
+                  <label className="field">
+                    Bezeichnung
+                    <input
+                      value={selectedCue.label}
+                      onChange={(event) => updateCue(selectedCue.id, { label: event.target.value })}
+                    />
+                  </label>
+                </div>
+                {cueNumberDraft?.id === selectedCue.id ? (
+                  <p className="empty">{cueNumberDraft.error} Beim Verlassen des Felds bleibt Cue {selectedCue.number}.</p>
+                ) : cues.some((cue) => cue.id !== selectedCue.id && cue.number === selectedCue.number) && (
+                  <p className="empty">Die Cue-Nummer ist doppelt vergeben.</p>
+                )}
+                <div className="field-row">
+                  <label className="field">
+                    Szene
+                    <select
+                      value={selectedCue.sceneId}
+                      onChange={(event) => updateCue(selectedCue.id, { sceneId: event.target.value })}
+                    >
+                      {currentScenes.map((scene) => (
+                        <option key={scene.id} value={scene.id}>{scene.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="field">
+                    Zeit (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={selectedCue.time}
+                      onChange={(event) => updateCue(selectedCue.id, { time: Math.max(0, Number(event.target.value)) })}
+                    />
+                  </label>
+                </div>
+                <div className="field-row">
+                  <label className="field">
+                    Fade (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={selectedCue.fade}
+                      onChange={(event) => updateCue(selectedCue.id, { fade: Math.max(0, Number(event.target.value)) })}
+                    />
+                  </label>
+                  <label className="field">
+                    Auto-Follow (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      placeholder="aus"
+                      value={selectedCue.autoFollow ?? ""}
+                      onChange={(event) => updateCue(selectedCue.id, {
+                        autoFollow: event.target.value === "" ? undefined : Math.max(0, Number(event.target.value))
+                      })}
+                    />
+                  </label>
+                </div>
+                <button
+                  className="ghost"
+                  onClick={() => updateCue(selectedCue.id, { sceneId: activeSceneId, time: Math.round(currentTime * 10) / 10 })}
+                >
+                  Aktuelle Szene und Zeit übernehmen
+                </button>
+              </>
+            )}
+          </section>
+
           <section>
             <h2>Neue Surface</h2>
             <div className="button-grid">
@@ -1519,99 +4473,182 @@ export default function App() {
             </label>
           </section>
 
+          <section>
+            <h2>Assets</h2>
+            {assets.length === 0 ? (
+              <p className="empty">Noch keine Medien importiert.</p>
+            ) : (
+              <div className="surface-list">
+                {assets.map((asset) => {
+                  const usage = allSurfaces.filter((surface) => surface.assetId === asset.id).length;
+                  const missing = !assetUrls[asset.id];
+                  return (
+                    <div key={asset.id} className="surface-item">
+                      <div className="surface-meta">
+                        <strong>{asset.name ?? asset.id}</strong>
+                        <span>
+                          {asset.kind === "video" ? "Video" : "Bild"} · {asset.width}×{asset.height} ·{" "}
+                          {(asset.size / (1024 * 1024)).toFixed(1)} MB · {usage}× verwendet
+                          {missing ? " · fehlt" : ""}
+                        </span>
+                      </div>
+                      <div className="surface-actions">
+                        <button
+                          onClick={() => addAssetSurface(asset, uploadShape)}
+                          disabled={missing}
+                          title="Als Surface einfügen"
+                        >
+                          +
+                        </button>
+                        <button
+                          onClick={() => removeAsset(asset.id)}
+                          disabled={usage > 0}
+                          title={usage > 0 ? "Wird noch verwendet" : "Asset löschen"}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
           <section>
             <h2>Surfaces</h2>
             <div className="surface-list">
-              {surfaces.map((surface) => (
-                <div
-                  key={surface.id}
-                  className={`surface-item ${surface.id === selectedId ? "active" : ""} ${surface.id === dragOverId ? "drag-over" : ""}`}
-                  onClick={() => handleSelect(surface.id)}
-                  draggable
-                  onDragStart={(event) => {
-                    setDragListId(surface.id);
-                    event.dataTransfer.effectAllowed = "move";
-                    event.dataTransfer.setData("text/plain", surface.id);
-                  }}
-                  onDragOver={(event) => {
-                    event.preventDefault();
-                    if (dragOverId !== surface.id) setDragOverId(surface.id);
-                    event.dataTransfer.dropEffect = "move";
-                  }}
-                  onDrop={(event) => {
-                    event.preventDefault();
-                    const sourceId = event.dataTransfer.getData("text/plain") || dragListId;
-                    if (sourceId) reorderSurfaces(sourceId, surface.id);
-                    setDragListId(null);
-                    setDragOverId(null);
-                  }}
-                  onDragEnd={() => {
-                    setDragListId(null);
-                    setDragOverId(null);
-                  }}
-                >
-                  <div className="surface-meta">
-                    <strong>{surface.name}</strong>
-                    <span>{surface.type}</span>
-                  </div>
-                <div className="surface-actions">
-                  <button
-                    className={surface.locked ? "muted" : ""}
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      updateSurface(surface.id, { locked: !surface.locked });
-                    }}
-                    title={surface.locked ? "Gesperrt" : "Entsperrt"}
-                  >
-                    {surface.locked ? "🔒" : "🔓"}
-                  </button>
-                  <button
-                    className={surface.visible ? "" : "muted"}
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      updateSurface(surface.id, { visible: !surface.visible });
-                      }}
-                    >
-                      {surface.visible ? "👁" : "🚫"}
-                    </button>
-                    <button
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        removeSurface(surface.id);
-                      }}
-                    >
-                      ✕
-                    </button>
-                  </div>
-                </div>
-              ))}
+              {renderSurfaceTree(undefined, 0)}
               {surfaces.length === 0 && (
                 <p className="empty">Noch keine Surfaces. Füge links eine hinzu.</p>
               )}
             </div>
+            <div className="inline-actions">
+              <button className="ghost" onClick={addGroup}>
+                {selectedGroup ? "+ Untergruppe" : "+ Gruppe"}
+              </button>
+            </div>
           </section>
         </aside>
 
         <main className="stage-area">
           <div
-            className="stage"
+            className={`stage renderer-${rendererMode}`}
             ref={stageRef}
             onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
           >
-            {surfaces.map((surface) => (
+            {stageLayers.map(({ key, surface, isFading }) => (
               <SurfaceLayer
-                key={surface.id}
+                key={key}
                 surface={surface}
                 renderQuad={getRenderQuad(surface)}
-                isSelected={selectedId === surface.id}
+                renderMesh={getRenderMesh(surface)}
+                maskRegion={maskRegions.get(surface.id)}
+                maskImageUrl={maskImages.get(surface.id)?.url}
+                isSelected={!isFading && selectedId === surface.id}
                 isPlaying={isPlaying}
-                globalTime={currentTime}
-                onSelect={handleSelect}
-                onStartDrag={handleStartDragSurface}
-                isDragging={dragSurfaceId === surface.id}
+                globalTime={isFading ? sceneFade?.time ?? currentTime : currentTime}
+                isDragging={!isFading && dragSurfaceId === surface.id}
                 onLiveMeta={handleLiveMeta}
+                onMediaElement={handleMediaElement}
               />
             ))}
+            {rendererMode !== "css" && (
+              <WebGLStage
+                getLayers={getWebGLLayers}
+                outputs={correctedOutputs}
+                width={stageSize.width}
+                height={stageSize.height}
+                mode={rendererMode}
+              />
+            )}
+            <div className="edge-blend-layer">
+              {outputRects.flatMap(({ output, rect }) =>
+                computeEdgeBlendZones(rect, output.edgeBlend).map((zone) => (
+                  <div
+                    key={`${output.id}-${zone.side}`}
+                    className="edge-blend-zone"
+                    style={{
+                      left: zone.rect.x,
+                      top: zone.rect.y,
+                      width: zone.rect.width,
+                      height: zone.rect.height,
+                      backgroundImage: zone.gradient
+                    }}
+                  />
+                ))
+              )}
+            </div>
+            {!isPlaying && outputs.length > 1 && (
+              <div className="output-layer">
+                {outputRects.map(({ output, rect }) => (
+                  <div
+                    key={output.id}
+                    className={`output-outline ${output.id === selectedOutput?.id ? "active" : ""}`}
+                    style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+                  >
+                    <span>{output.name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {!isPlaying && showGrid && gridSize > 0 && (
+              <div
+                className="grid-overlay"
+                style={{ backgroundSize: `${gridSize}px ${gridSize}px` }}
+              />
+            )}
+            {snapGuides.length > 0 && (
+              <svg className="snap-guides">
+                {snapGuides.map((guide, index) => (
+                  <line
+                    key={`guide-${index}`}
+                    x1={guide.from.x}
+                    y1={guide.from.y}
+                    x2={guide.to.x}
+                    y2={guide.to.y}
+                  />
+                ))}
+              </svg>
+            )}
+            {calibrationTarget && (
+              <div className="overlay calibration">
+                <svg className="calibration-grid">
+                  {calibrationTarget.lines.map((line, index) => (
+                    <polyline
+                      key={`calibration-${index}`}
+                      points={line.map((p) => `${p.x},${p.y}`).join(" ")}
+                    />
+                  ))}
+                  <line
+                    x1={calibrationTarget.rect.x + calibrationTarget.rect.width / 2}
+                    y1={calibrationTarget.rect.y}
+                    x2={calibrationTarget.rect.x + calibrationTarget.rect.width / 2}
+                    y2={calibrationTarget.rect.y + calibrationTarget.rect.height}
+                    className="reference"
+                  />
+                  <line
+                    x1={calibrationTarget.rect.x}
+                    y1={calibrationTarget.rect.y + calibrationTarget.rect.height / 2}
+                    x2={calibrationTarget.rect.x + calibrationTarget.rect.width}
+                    y2={calibrationTarget.rect.y + calibrationTarget.rect.height / 2}
+                    className="reference"
+                  />
+                </svg>
+                {calibrationTarget.corners.map((corner, index) => (
+                  <div
+                    key={`keystone-${index}`}
+                    className="handle keystone"
+                    style={{ left: corner.x, top: corner.y }}
+                    onPointerDown={(event) => {
+                      event.stopPropagation();
+                      setKeystoneDrag({ outputId: calibrationTarget.output.id, index });
+                    }}
+                  />
+                ))}
+              </div>
+            )}
             {showStageDrawing && (
               <StageDrawingOverlay
                 stageRef={stageRef}
@@ -1620,8 +4657,36 @@ export default function App() {
               />
             )}
 
+            {selectedGroup && groupFrame && !isPlaying && !resolvedGroups.get(selectedGroup.id)?.locked && (
+              <div
+                className="overlay"
+                style={getGroupOverlayStyle(resolvedGroups.get(selectedGroup.id)?.parentHomography)}
+              >
+                <svg className="quad-outline group">
+                  <polygon points={groupFrame.map((p) => `${p.x},${p.y}`).join(" ")} />
+                </svg>
+                {groupFrame.map((corner, index) => (
+                  <div
+                    key={`group-${index}`}
+                    className="handle group"
+                    style={{ left: corner.x, top: corner.y }}
+                    title="Ziehen verzerrt, mit Shift gleichmäßig skalieren"
+                    onPointerDown={(event) => handleStartDragGroup(event, index)}
+                  />
+                ))}
+                <div
+                  className="handle center"
+                  style={{
+                    left: (groupFrame[0].x + groupFrame[2].x) / 2,
+                    top: (groupFrame[0].y + groupFrame[2].y) / 2
+                  }}
+                  onPointerDown={(event) => handleStartDragGroup(event, null)}
+                />
+              </div>
+            )}
+
             {selectedSurface && selectedRenderQuad && !isPlaying && !selectedSurface.locked && (
-              <div className="overlay">
+              <div className="overlay" style={getGroupOverlayStyle(getGroupHomography(selectedSurface))}>
                 {editMode === "perspective" && !selectedSurface.isFullscreen && (
                   <>
                     <svg className="quad-outline">
@@ -1676,14 +4741,92 @@ export default function App() {
                     />
                   </>
                 )}
-                {editMode === "mask" && selectedSurface.maskPoints && (
+                {editMode === "rotate" && !selectedSurface.isFullscreen && rotationAnchor && rotationHandle && (
+                  <>
+                    <svg className="quad-outline rotate">
+                      <polygon
+                        points={selectedRenderQuad.map((p) => `${p.x},${p.y}`).join(" ")}
+                      />
+                      <line x1={rotationAnchor.x} y1={rotationAnchor.y} x2={rotationHandle.x} y2={rotationHandle.y} />
+                    </svg>
+                    <div
+                      className="handle rotate"
+                      style={{ left: rotationHandle.x, top: rotationHandle.y }}
+                      onPointerDown={(event) =>
+                        handleStartDragHandle(event, selectedSurface.id, 0, "rotate")
+                      }
+                    />
+                    <div
+                      className="handle center"
+                      style={{
+                        left: (selectedRenderQuad[0].x + selectedRenderQuad[2].x) / 2,
+                        top: (selectedRenderQuad[0].y + selectedRenderQuad[2].y) / 2
+                      }}
+                      onPointerDown={(event) => handleStartDragSurface(event, selectedSurface.id)}
+                    />
+                  </>
+                )}
+                {editMode === "mesh" && selectedRenderMesh && (
+                  <>
+                    <svg className="quad-outline mesh">
+                      {Array.from({ length: selectedRenderMesh.rows }, (_, row) => (
+                        <polyline
+                          key={`mesh-row-${row}`}
+                          points={selectedRenderMesh.points
+                            .slice(row * selectedRenderMesh.columns, (row + 1) * selectedRenderMesh.columns)
+                            .map((p) => `${p.x},${p.y}`)
+                            .join(" ")}
+                        />
+                      ))}
+                      {Array.from({ length: selectedRenderMesh.columns }, (_, column) => (
+                        <polyline
+                          key={`mesh-column-${column}`}
+                          points={selectedRenderMesh.points
+                            .filter((_, index) => index % selectedRenderMesh.columns === column)
+                            .map((p) => `${p.x},${p.y}`)
+                            .join(" ")}
+                        />
+                      ))}
+                    </svg>
+                    {selectedRenderMesh.points.map((point, index) => (
+                      <div
+                        key={`mesh-${index}`}
+                        className="handle mesh"
+                        style={{ left: point.x, top: point.y }}
+                        onPointerDown={(event) =>
+                          handleStartDragHandle(event, selectedSurface.id, index, "mesh")
+                        }
+                      />
+                    ))}
+                  </>
+                )}
+                {editMode === "mask" && activeMaskPoints.length > 0 && (
                   <>
-                    <svg className="quad-outline mask">
-                      <polygon points={activeMaskPoints.map((p) => `${p.x},${p.y}`).join(" ")} />
+                    <svg className="quad-outline mask inactive">
+                      {selectedSurface.masks?.filter((mask) => mask.id !== activeMask?.id).map((mask) => (
+                        <path key={mask.id} d={getMaskSvgPath(mask.polygon, mask.curves)} />
+                      ))}
+                    </svg>
+                    <svg className={`quad-outline mask${maskValidation?.ok === false ? " invalid" : ""}`}>
+                      <path d={getMaskSvgPath(activeMaskPoints, activeMaskCurves)} />
+                      {activeMaskCurves?.map((curve, index) => {
+                        if (!curve) return null;
+                        const start = activeMaskPoints[index];
+                        const end = activeMaskPoints[(index + 1) % activeMaskPoints.length];
+                        return (
+                          <g key={`tangent-${index}`} className="tangent-line">
+                            <line x1={start.x} y1={start.y} x2={curve.c1.x} y2={curve.c1.y} />
+                            <line x1={end.x} y1={end.y} x2={curve.c2.x} y2={curve.c2.y} />
+                          </g>
+                        );
+                      })}
                     </svg>
                     {activeMaskPoints.map((point, index) => {
                       const next = activeMaskPoints[(index + 1) % activeMaskPoints.length];
-                      const mid = { x: (point.x + next.x) / 2, y: (point.y + next.y) / 2 };
+                      const curve = activeMaskCurves?.[index];
+                      const mid = curve
+                        ? evaluateCubic(point, curve, next, 0.5)
+                        : { x: (point.x + next.x) / 2, y: (point.y + next.y) / 2 };
                       return (
                         <div key={`mask-${index}`}>
                           <div
@@ -1694,16 +4837,28 @@ export default function App() {
                             }
                             onDoubleClick={() => {
                               if (activeMaskPoints.length <= 3) return;
-                              const updated = [...activeMaskPoints];
-                              updated.splice(index, 1);
-                              updateSurface(selectedSurface.id, { maskPoints: updated });
+                              const updated = removeMaskVertex(selectedSurface, activeMask?.id, index);
+                              if (isMaskRejected(selectedSurface, updated, activeMask?.id)) return;
+                              setSurfaces((prev) => prev.map((surface) => (
+                                surface.id === selectedSurface.id ? removeMaskVertex(surface, activeMask?.id, index) : surface
+                              )));
                             }}
                           />
                           <div
-                            className="handle ghost"
+                            className={`handle ghost${maskTool === "curve" ? " curve" : ""}`}
                             style={{ left: mid.x, top: mid.y }}
                             onPointerDown={() => handleAddMaskPoint(selectedSurface.id, index + 1)}
                           />
+                          {curve && (["c1", "c2"] as const).map((control) => (
+                            <div
+                              key={control}
+                              className="handle tangent"
+                              style={{ left: curve[control].x, top: curve[control].y }}
+                              onPointerDown={(event) =>
+                                handleStartDragHandle(event, selectedSurface.id, index, "mask", control)
+                              }
+                            />
+                          ))}
                         </div>
                       );
                     })}
@@ -1718,7 +4873,79 @@ export default function App() {
         <aside className="panel right">
           <section>
             <h2>Inspector</h2>
-            {!selectedSurface && <p className="empty">Wähle eine Surface aus.</p>}
+            {!selectedSurface && !selectedGroup && <p className="empty">Wähle eine Surface aus.</p>}
+            {selectedGroup && (
+              <div className="inspector">
+                <label className="field">
+                  Name
+                  <input
+                    type="text"
+                    value={selectedGroup.name}
+                    onChange={(event) => updateGroup(selectedGroup.id, { name: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  Übergeordnete Gruppe
+                  <select
+                    value={selectedGroup.parentId ?? ""}
+                    onChange={(event) => setGroupParent(selectedGroup.id, event.target.value || undefined)}
+                  >
+                    <option value="">Keine</option>
+                    {groupOptions
+                      .filter(({ group }) => !collectGroupIds(groups, selectedGroup.id).has(group.id))
+                      .map(({ group, depth }) => (
+                        <option key={group.id} value={group.id}>
+                          {"\u00a0\u00a0".repeat(depth)}{group.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label className="field">
+                  Sperren
+                  <input
+                    type="checkbox"
+                    checked={selectedGroup.locked ?? false}
+                    onChange={(event) => updateGroup(selectedGroup.id, { locked: event.target.checked })}
+                  />
+                </label>
+                <label className="field">
+                  Sichtbarkeit
+                  <input
+                    type="checkbox"
+                    checked={selectedGroup.visible}
+                    onChange={(event) => updateGroup(selectedGroup.id, { visible: event.target.checked })}
+                  />
+                </label>
+                <label className="field">
+                  Opazität
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={selectedGroup.opacity}
+                    onChange={(event) => updateGroup(selectedGroup.id, { opacity: Number(event.target.value) })}
+                  />
+                </label>
+                <p className="empty">
+                  {groupFrame
+                    ? "Rahmen auf der Bühne: Mitte verschiebt, Ecken verzerren, mit Shift gleichmäßig skalieren."
+                    : "Keine Surfaces dieser Gruppe in der aktiven Szene."}
+                </p>
+                <div className="inline-actions">
+                  <button
+                    className="ghost"
+                    onClick={() => updateGroup(selectedGroup.id, { transform: undefined })}
+                    disabled={!selectedGroup.transform || resolvedGroups.get(selectedGroup.id)?.locked}
+                  >
+                    Transformation zurücksetzen
+                  </button>
+                  <button className="ghost" onClick={() => removeGroup(selectedGroup.id)}>
+                    Gruppe auflösen
+                  </button>
+                </div>
+              </div>
+            )}
             {selectedSurface && (
               <div className="inspector">
                 <label className="field">
@@ -1748,6 +4975,13 @@ export default function App() {
                   >
                     Skalieren
                   </button>
+                  <button
+                    className={editMode === "rotate" ? "active" : ""}
+                    onClick={() => setEditMode("rotate")}
+                    disabled={selectedSurface.locked || selectedSurface.isFullscreen}
+                  >
+                    Drehen
+                  </button>
                   <button
                     className={editMode === "mask" ? "active" : ""}
                     onClick={ensureMaskMode}
@@ -1755,26 +4989,250 @@ export default function App() {
                   >
                     Maske
                   </button>
+                  <button
+                    className={editMode === "mesh" ? "active" : ""}
+                    onClick={ensureMeshMode}
+                    disabled={selectedSurface.locked || selectedSurface.isFullscreen}
+                  >
+                    Mesh
+                  </button>
                 </div>
 
+                {editMode === "mask" && selectedSurface.type !== SurfaceType.LINE && (
+                  <div className="toggle-row">
+                    <button
+                      className={maskTool === "point" ? "active" : ""}
+                      onClick={() => setMaskTool("point")}
+                      title="Kantenmitte fügt einen Punkt ein"
+                    >
+                      Punkte
+                    </button>
+                    <button
+                      className={maskTool === "curve" ? "active" : ""}
+                      onClick={() => setMaskTool("curve")}
+                      title="Kantenmitte schaltet zwischen Gerade und Bezier-Kurve"
+                    >
+                      Kurven
+                    </button>
+                  </div>
+                )}
+
+                {editMode === "mask" && selectedSurface.type !== SurfaceType.LINE && (
+                  <div className="surface-list mask-list">
+                    {(selectedSurface.masks ?? []).map((mask, index, masks) => (
+                      <div
+                        key={mask.id}
+                        className={`surface-item ${mask.id === activeMask?.id ? "active" : ""}`}
+                        onClick={() => setSelectedMaskId(mask.id)}
+                      >
+                        <div className="surface-meta">
+                          <strong>Maske {index + 1}</strong>
+                          <span>{mask.mode === "include" ? "Einschließen" : "Ausschließen"}</span>
+                        </div>
+                        <div className="surface-actions">
+                          <button
+                            disabled={selectedSurface.locked || index === 0}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              moveMask(mask.id, -1);
+                            }}
+                            title="Nach oben"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            disabled={selectedSurface.locked || index === masks.length - 1}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              moveMask(mask.id, 1);
+                            }}
+                            title="Nach unten"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            disabled={selectedSurface.locked}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              updateMask(mask.id, { mode: mask.mode === "include" ? "exclude" : "include" });
+                            }}
+                            title="Invertieren"
+                          >
+                            ◐
+                          </button>
+                          <button
+                            disabled={selectedSurface.locked}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              removeMask(mask.id);
+                            }}
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {editMode === "mask" && activeMask && selectedSurface.type !== SurfaceType.LINE && (
+                  <>
+                    <label className="field">
+                      Weiche Kante (px)
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={activeMask.feather ?? 0}
+                        disabled={selectedSurface.locked}
+                        onChange={(event) => {
+                          const feather = Math.max(0, Number(event.target.value) || 0);
+                          updateMask(activeMask.id, {
+                            feather,
+                            edgeFeather: activeMask.edgeFeather?.map(() => feather)
+                          });
+                        }}
+                      />
+                    </label>
+                    <label className="field">
+                      Kanten einzeln
+                      <input
+                        type="checkbox"
+                        checked={!!activeMask.edgeFeather}
+                        disabled={selectedSurface.locked}
+                        onChange={(event) =>
+                          updateMask(activeMask.id, {
+                            edgeFeather: event.target.checked
+                              ? activeMask.polygon.map(() => activeMask.feather ?? 0)
+                              : undefined
+                          })
+                        }
+                      />
+                    </label>
+                    {activeMask.edgeFeather && (
+                      <div className="field-row">
+                        {activeMask.polygon.map((_, index) => (
+                          <label key={`edge-${index}`} className="field">
+                            Kante {index + 1}
+                            <input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={activeMask.edgeFeather?.[index] ?? activeMask.feather ?? 0}
+                              disabled={selectedSurface.locked}
+                              onChange={(event) => {
+                                const edgeFeather = activeMask.polygon.map(
+                                  (__, edge) => activeMask.edgeFeather?.[edge] ?? activeMask.feather ?? 0
+                                );
+                                edgeFeather[index] = Math.max(0, Number(event.target.value) || 0);
+                                updateMask(activeMask.id, { edgeFeather });
+                              }}
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+
                 {editMode === "mask" && (
                   <div className="inline-actions">
+                    {selectedSurface.type !== SurfaceType.LINE && (
+                      <>
+                        <button className="ghost" onClick={() => addMask("include")} disabled={selectedSurface.locked}>
+                          + Maske
+                        </button>
+                        <button className="ghost" onClick={() => addMask("exclude")} disabled={selectedSurface.locked}>
+                          + Loch
+                        </button>
+                      </>
+                    )}
                     <button className="ghost" onClick={resetMask} disabled={selectedSurface.locked}>Maske = Quad</button>
                     <button className="ghost" onClick={clearMask} disabled={selectedSurface.locked}>Maske löschen</button>
                   </div>
                 )}
 
+                {editMode === "mask" && maskValidation && !maskValidation.ok && (
+                  <div className="inline-actions">
+                    <p className="empty">Maske ungültig: {maskValidation.reason}</p>
+                    <button className="ghost" onClick={repairMask} disabled={selectedSurface.locked}>Maske reparieren</button>
+                  </div>
+                )}
+
+                {editMode === "mesh" && selectedSurface.mesh && (
+                  <>
+                    <label className="field">
+                      Mesh Raster (Spalten × Zeilen)
+                      <div className="field-row">
+                        <input
+                          type="number"
+                          min={2}
+                          max={MAX_MESH_SIZE}
+                          value={selectedSurface.mesh.columns}
+                          disabled={selectedSurface.locked}
+                          onChange={(event) =>
+                            resizeMesh(Number(event.target.value), selectedSurface.mesh?.rows ?? 2)
+                          }
+                        />
+                        <input
+                          type="number"
+                          min={2}
+                          max={MAX_MESH_SIZE}
+                          value={selectedSurface.mesh.rows}
+                          disabled={selectedSurface.locked}
+                          onChange={(event) =>
+                            resizeMesh(selectedSurface.mesh?.columns ?? 2, Number(event.target.value))
+                          }
+                        />
+                      </div>
+                    </label>
+                    <label className="field">
+                      Interpolation
+                      <select
+                        value={selectedSurface.mesh.interpolation}
+                        disabled={selectedSurface.locked}
+                        onChange={(event) => setMeshInterpolation(event.target.value as MeshInterpolation)}
+                      >
+                        <option value="linear">Linear</option>
+                        <option value="bezier">Bezier</option>
+                      </select>
+                    </label>
+                    <div className="inline-actions">
+                      <button className="ghost" onClick={resetMesh} disabled={selectedSurface.locked}>Mesh = Quad</button>
+                      <button className="ghost" onClick={clearMesh} disabled={selectedSurface.locked}>Mesh löschen</button>
+                    </div>
+                  </>
+                )}
+
                 <label className="field">
                   Sperren
                   <input
                     type="checkbox"
                     checked={selectedSurface.locked}
+                    disabled={lockedByGroup}
+                    title={lockedByGroup ? "Die Gruppe ist gesperrt" : undefined}
                     onChange={(event) =>
                       updateSurface(selectedSurface.id, { locked: event.target.checked })
                     }
                   />
                 </label>
 
+                <label className="field">
+                  Gruppe
+                  <select
+                    value={selectedSurface.groupId ?? ""}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => setSurfaceGroup(selectedSurface.id, event.target.value || undefined)}
+                  >
+                    <option value="">Keine</option>
+                    {groupOptions.map(({ group, depth }) => (
+                      <option key={group.id} value={group.id}>
+                        {"\u00a0\u00a0".repeat(depth)}{group.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
                 <label className="field">
                   Sichtbarkeit
                   <input
@@ -1786,6 +5244,24 @@ export default function App() {
                   />
                 </label>
 
+                <label className="field">
+                  Blend-Modus
+                  <select
+                    value={selectedSurface.blendMode ?? "normal"}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) =>
+                      updateSurface(selectedSurface.id, { blendMode: event.target.value as BlendMode })
+                    }
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="add">Addieren</option>
+                    <option value="screen">Negativ multiplizieren</option>
+                    <option value="multiply">Multiplizieren</option>
+                    <option value="overlay">Ineinanderkopieren</option>
+                    <option value="difference">Differenz</option>
+                  </select>
+                </label>
+
                 <label className="field">
                   Opazität
                   <input
@@ -1890,6 +5366,33 @@ export default function App() {
                   </button>
                 </div>
 
+                <label className="field">
+                  Rotation (°)
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      step={1}
+                      value={Number(selectedSurface.rotation.toFixed(1))}
+                      disabled={selectedSurface.locked || selectedSurface.isFullscreen}
+                      onChange={(event) =>
+                        updateSurface(selectedSurface.id, {
+                          rotation: normalizeRotation(Number(event.target.value) || 0)
+                        })
+                      }
+                    />
+                    <button
+                      className="ghost"
+                      onClick={() => updateSurface(selectedSurface.id, { rotation: 0 })}
+                      disabled={selectedSurface.locked || selectedSurface.isFullscreen}
+                    >
+                      0°
+                    </button>
+                  </div>
+                </label>
+                {selectedSurface.isFullscreen && (
+                  <p className="empty">Vollbild-Surfaces ignorieren Skalierung und Rotation.</p>
+                )}
+
                 <label className="field">
                   Form
                   <select
@@ -2301,6 +5804,387 @@ export default function App() {
               </div>
             )}
           </section>
+
+          {selectedSurface && (
+            <section>
+              <h2>Keyframes</h2>
+              <div className="inspector">
+                {selectedKeyframes.length > 0 ? (
+                  <div className="surface-list mask-list">
+                    {selectedKeyframes.map((keyframe, index) => (
+                      <div
+                        key={`keyframe-${index}`}
+                        className={`surface-item ${keyframe === currentKeyframe ? "active" : ""}`}
+                        onClick={() => loadKeyframe(keyframe)}
+                        title="Keyframe laden"
+                      >
+                        <div className="surface-meta">
+                          <strong>{formatTime(keyframe.time)}</strong>
+                          <span>{EASING_LABELS[keyframe.easing ?? "linear"]}</span>
+                        </div>
+                        <div className="surface-actions">
+                          <button
+                            disabled={selectedSurface.locked}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              removeKeyframe(keyframe);
+                            }}
+                            title="Keyframe löschen"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="empty">Noch keine Keyframes.</p>
+                )}
+                <label className="field">
+                  Easing
+                  <select
+                    value={currentKeyframe?.easing ?? keyframeEasing}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateKeyframeEasing(event.target.value as Easing)}
+                  >
+                    {(Object.keys(EASING_LABELS) as Easing[]).map((easing) => (
+                      <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="inline-actions">
+                  <button
+                    className="ghost"
+                    onClick={addKeyframe}
+                    disabled={selectedSurface.locked || isPlaying}
+                  >
+                    {currentKeyframe ? "Keyframe aktualisieren" : `Keyframe bei ${formatTime(currentTime)}`}
+                  </button>
+                </div>
+                <p className="empty">
+                  Keyframes speichern Quad, Masken, Opazität, Skalierung und Rotation und werden bei der Wiedergabe
+                  interpoliert. Klick auf einen Keyframe lädt ihn zum Bearbeiten.
+                </p>
+              </div>
+            </section>
+          )}
+
+          {selectedSurface && (
+            <section>
+              <h2>Farbkorrektur</h2>
+              <div className="inspector">
+                <label className="field">
+                  Helligkeit
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.01}
+                    value={selectedSurface.colorCorrection?.brightness ?? 1}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateColorCorrection({ brightness: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="field">
+                  Kontrast
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.01}
+                    value={selectedSurface.colorCorrection?.contrast ?? 1}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateColorCorrection({ contrast: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="field">
+                  Sättigung
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.01}
+                    value={selectedSurface.colorCorrection?.saturation ?? 1}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateColorCorrection({ saturation: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="field">
+                  Gamma
+                  <input
+                    type="number"
+                    min={0.1}
+                    max={5}
+                    step={0.05}
+                    value={selectedSurface.colorCorrection?.gamma ?? 1}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateColorCorrection({ gamma: Math.max(0.1, Number(event.target.value) || 1) })}
+                  />
+                </label>
+                <label className="field">
+                  Farbton (°)
+                  <input
+                    type="range"
+                    min={-180}
+                    max={180}
+                    step={1}
+                    value={selectedSurface.colorCorrection?.hue ?? 0}
+                    disabled={selectedSurface.locked}
+                    onChange={(event) => updateColorCorrection({ hue: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="field">
+                  3D LUT (.cube)
+                  <input type="file" accept=".cube" disabled={selectedSurface.locked} onChange={importLut} />
+                </label>
+                {selectedSurface.colorCorrection?.lut && (
+                  <p className="empty">
+                    LUT: {selectedSurface.colorCorrection.lut.title} ({selectedSurface.colorCorrection.lut.size}³)
+                  </p>
+                )}
+                {lutError && <p className="empty">{lutError}</p>}
+                {rendererMode === "css" && selectedSurface.colorCorrection?.lut && (
+                  <p className="empty">LUTs werden nur im WebGL-Renderer angewendet.</p>
+                )}
+                <div className="inline-actions">
+                  <button
+                    className="ghost"
+                    onClick={() => updateColorCorrection({ lut: undefined })}
+                    disabled={selectedSurface.locked || !selectedSurface.colorCorrection?.lut}
+                  >
+                    LUT entfernen
+                  </button>
+                  <button
+                    className="ghost"
+                    onClick={() => updateSurface(selectedSurface.id, { colorCorrection: undefined })}
+                    disabled={selectedSurface.locked || !selectedSurface.colorCorrection}
+                  >
+                    Zurücksetzen
+                  </button>
+                </div>
+              </div>
+            </section>
+          )}
+
+          <section>
+            <h2>Outputs</h2>
+            <div className="output-list">
+              {outputs.map((output) => (
+                <button
+                  key={output.id}
+                  className={`output-pill ${output.id === selectedOutput?.id ? "active" : ""}`}
+                  onClick={() => setSelectedOutputId(output.id)}
+                >
+                  {output.name}
+                </button>
+              ))}
+              <button className="output-pill" onClick={addOutput}>+</button>
+            </div>
+            {selectedOutput && (
+              <div className="inspector">
+                <label className="field">
+                  Name
+                  <input
+                    type="text"
+                    value={selectedOutput.name}
+                    onChange={(event) => updateOutput(selectedOutput.id, { name: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  Bereich X / Y (%)
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      step={1}
+                      value={Math.round(selectedOutput.region.x * 1000) / 10}
+                      onChange={(event) =>
+                        updateOutputRegion(selectedOutput.id, { x: Number(event.target.value) / 100 })
+                      }
+                    />
+                    <input
+                      type="number"
+                      step={1}
+                      value={Math.round(selectedOutput.region.y * 1000) / 10}
+                      onChange={(event) =>
+                        updateOutputRegion(selectedOutput.id, { y: Number(event.target.value) / 100 })
+                      }
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  Bereich Breite / Höhe (%)
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={Math.round(selectedOutput.region.width * 1000) / 10}
+                      onChange={(event) =>
+                        updateOutputRegion(selectedOutput.id, { width: Math.max(0.01, Number(event.target.value) / 100) })
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={Math.round(selectedOutput.region.height * 1000) / 10}
+                      onChange={(event) =>
+                        updateOutputRegion(selectedOutput.id, { height: Math.max(0.01, Number(event.target.value) / 100) })
+                      }
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  Blend Links / Rechts (px)
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedOutput.edgeBlend.left}
+                      onChange={(event) =>
+                        updateEdgeBlend(selectedOutput.id, { left: Math.max(0, Number(event.target.value)) })
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedOutput.edgeBlend.right}
+                      onChange={(event) =>
+                        updateEdgeBlend(selectedOutput.id, { right: Math.max(0, Number(event.target.value)) })
+                      }
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  Blend Oben / Unten (px)
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedOutput.edgeBlend.top}
+                      onChange={(event) =>
+                        updateEdgeBlend(selectedOutput.id, { top: Math.max(0, Number(event.target.value)) })
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedOutput.edgeBlend.bottom}
+                      onChange={(event) =>
+                        updateEdgeBlend(selectedOutput.id, { bottom: Math.max(0, Number(event.target.value)) })
+                      }
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  Blend Gamma
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={selectedOutput.edgeBlend.gamma}
+                    onChange={(event) =>
+                      updateEdgeBlend(selectedOutput.id, { gamma: Math.max(0.1, Number(event.target.value)) })
+                    }
+                  />
+                </label>
+                <label className="field">
+                  Blend Kurve
+                  <select
+                    value={selectedOutput.edgeBlend.curve}
+                    onChange={(event) =>
+                      updateEdgeBlend(selectedOutput.id, { curve: event.target.value as EdgeBlendCurve })
+                    }
+                  >
+                    <option value="linear">Linear</option>
+                    <option value="smoothstep">Smoothstep</option>
+                    <option value="cosine">Cosinus</option>
+                  </select>
+                </label>
+                <label className="field">
+                  Linsenkorrektur k1 / k2
+                  <div className="field-row">
+                    <input
+                      type="number"
+                      step={0.01}
+                      value={selectedOutput.correction?.k1 ?? 0}
+                      onChange={(event) =>
+                        updateOutputCorrection(selectedOutput.id, { k1: Number(event.target.value) || 0 })
+                      }
+                    />
+                    <input
+                      type="number"
+                      step={0.01}
+                      value={selectedOutput.correction?.k2 ?? 0}
+                      onChange={(event) =>
+                        updateOutputCorrection(selectedOutput.id, { k2: Number(event.target.value) || 0 })
+                      }
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  Kalibrierraster & Keystone
+                  <input
+                    type="checkbox"
+                    checked={showCalibration}
+                    onChange={(event) => setShowCalibration(event.target.checked)}
+                  />
+                </label>
+                {rendererMode === "css" && correctedOutputs.length > 0 && (
+                  <p className="empty">Die Ausgangskorrektur wird nur im WebGL-Renderer angewendet.</p>
+                )}
+                <div className="inline-actions">
+                  <button
+                    className="ghost"
+                    onClick={() => updateOutput(selectedOutput.id, { correction: undefined })}
+                    disabled={!selectedOutput.correction}
+                  >
+                    Korrektur zurücksetzen
+                  </button>
+                  <button
+                    className="ghost"
+                    onClick={() => removeOutput(selectedOutput.id)}
+                    disabled={outputs.length <= 1}
+                  >
+                    Output löschen
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2>Raster & Snapping</h2>
+            <div className="inspector">
+              <label className="field">
+                Einrasten
+                <input
+                  type="checkbox"
+                  checked={snapEnabled}
+                  onChange={(event) => setSnapEnabled(event.target.checked)}
+                />
+              </label>
+              <label className="field">
+                Raster (px, 0 = aus)
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={gridSize}
+                  onChange={(event) => setGridSize(Math.max(0, Number(event.target.value) || 0))}
+                />
+              </label>
+              <label className="field">
+                Raster anzeigen
+                <input
+                  type="checkbox"
+                  checked={showGrid}
+                  onChange={(event) => setShowGrid(event.target.checked)}
+                />
+              </label>
+              <p className="empty">Alt gedrückt halten, um ohne Einrasten zu ziehen.</p>
+            </div>
+          </section>
         </aside>
       </div>
 
@@ -2319,11 +6203,18 @@ export default function App() {
             <button onClick={resetPlayback}>■</button>
           </div>
         </div>
-        <div className="timeline-bar">
+        <div className="timeline-bar" onPointerDown={seekTimeline}>
           <div
             className="timeline-progress"
             style={{ width: `${(currentTime / Math.max(1, playConfig.loopDuration)) * 100}%` }}
           />
+          {selectedKeyframes.map((keyframe, index) => (
+            <span
+              key={`marker-${index}`}
+              className="timeline-keyframe"
+              style={{ left: `${(keyframe.time / Math.max(1, playConfig.loopDuration)) * 100}%` }}
+            />
+          ))}
         </div>
       </footer>
 
@@ -2336,6 +6227,27 @@ export default function App() {
         />
       )}
 
+      {showOperator && (
+        <OperatorView
+          cues={cues}
+          currentIndex={currentCueIndex}
+          sceneNames={Object.fromEntries(currentScenes.map((scene) => [scene.id, scene.name]))}
+          followRemaining={getFollowRemaining()}
+          onGo={goCue}
+          onBack={backCue}
+          onFire={fireCue}
+          onClose={() => setShowOperator(false)}
+        />
+      )}
+
+      {importReview && (
+        <ImportDialog
+          review={importReview}
+          onAbort={closeImportReview}
+          onImportValid={importValidParts}
+        />
+      )}
+
       {showWindowDrawing && (
         <DrawingModal
           title="Canvas Zeichnen"
@@ -0,0 +1,115 @@
+import type { AssetRef } from "@openvisionmatrix/core";
+import { hashBlob } from "./sha256";
+
+// Media content lives in IndexedDB, keyed by asset id; projects only carry the AssetRef.
+const DB_NAME = "openvisionmatrix-assets";
+const DB_VERSION = 1;
+const STORE_NAME = "assets";
+
+export type StoredAsset = {
+  ref: AssetRef;
+  blob: Blob;
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "ref.id" });
+        store.createIndex("hash", "ref.hash", { unique: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+function createAssetId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `asset-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+}
+
+function probeMedia(blob: Blob, kind: AssetRef["kind"]): Promise<Pick<AssetRef, "width" | "height" | "duration">> {
+  const url = URL.createObjectURL(blob);
+  return new Promise<Pick<AssetRef, "width" | "height" | "duration">>((resolve, reject) => {
+    if (kind === "video") {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      video.onloadedmetadata = () => resolve({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: Number.isFinite(video.duration) ? video.duration : undefined
+      });
+      video.onerror = () => reject(new Error("Video metadata could not be read."));
+      video.src = url;
+      return;
+    }
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error("Image could not be decoded."));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+export function listAssets(): Promise<StoredAsset[]> {
+  return withStore("readonly", (store) => store.getAll() as IDBRequest<StoredAsset[]>);
+}
+
+export function getAsset(id: string): Promise<StoredAsset | undefined> {
+  return withStore("readonly", (store) => store.get(id) as IDBRequest<StoredAsset | undefined>);
+}
+
+export async function deleteAsset(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+function findAssetByHash(hash: string): Promise<StoredAsset | undefined> {
+  return withStore("readonly", (store) => store.index("hash").get(hash) as IDBRequest<StoredAsset | undefined>);
+}
+
+// Content already in the store is returned as is, so identical files share one asset.
+// Callers that already verified the content can pass its hash.
+export async function addAsset(blob: Blob, name: string, knownHash?: string): Promise<StoredAsset> {
+  const kind = blob.type.startsWith("video/") ? "video" : blob.type.startsWith("image/") ? "image" : null;
+  if (!kind) throw new Error(`Unsupported asset type "${blob.type || "unknown"}".`);
+
+  const hash = knownHash ?? await hashBlob(blob);
+  const existing = await findAssetByHash(hash);
+  if (existing) return existing;
+
+  const media = await probeMedia(blob, kind);
+  const asset: StoredAsset = {
+    ref: { id: createAssetId(), kind, name, mimeType: blob.type, size: blob.size, hash, ...media },
+    blob
+  };
+  try {
+    await withStore("readwrite", (store) => store.add(asset));
+  } catch (error) {
+    // A concurrent import of the same content won the race on the unique hash index.
+    if (!(error instanceof DOMException && error.name === "ConstraintError")) throw error;
+    const stored = await findAssetByHash(hash);
+    if (!stored) throw error;
+    return stored;
+  }
+  return asset;
+}
@@ -0,0 +1,154 @@
+import type { AssetRef, Project, ValidationIssue } from "@openvisionmatrix/core";
+import type { StoredAsset } from "./assets";
+import { hashBlob } from "./sha256";
+import { createZip, openZipEntry, readZipEntries } from "./zip";
+
+// A .ovm bundle is a ZIP archive with manifest.json, project.json and one
+// entry per asset under assets/<hash>.
+export const BUNDLE_FORMAT = "openvisionmatrix-bundle";
+export const BUNDLE_FORMAT_VERSION = 1;
+export const BUNDLE_EXTENSION = ".ovm";
+
+const MANIFEST_PATH = "manifest.json";
+const PROJECT_PATH = "project.json";
+
+export type BundleManifestAsset = {
+  id: string;
+  path: string;
+  hash: string;
+  size: number;
+  mimeType: string;
+};
+
+export type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  project: string;
+  assets: BundleManifestAsset[];
+};
+
+export type BundleImport = {
+  project: unknown;
+  // Missing and corrupt assets, reported with the entry path or the project path.
+  issues: ValidationIssue[];
+};
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isBundleFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(BUNDLE_EXTENSION) || file.type === "application/zip";
+}
+
+export async function createBundle(project: Project, assets: StoredAsset[]): Promise<Blob> {
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    schemaVersion: project.schemaVersion,
+    createdAt: new Date().toISOString(),
+    project: PROJECT_PATH,
+    assets: assets.map(({ ref }) => ({
+      id: ref.id,
+      path: `assets/${ref.hash}`,
+      hash: ref.hash,
+      size: ref.size,
+      mimeType: ref.mimeType
+    }))
+  };
+  return createZip([
+    { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }) },
+    { name: PROJECT_PATH, data: new Blob([JSON.stringify(project, null, 2)], { type: "application/json" }) },
+    ...assets.map(({ blob }, index) => ({ name: manifest.assets[index].path, data: blob }))
+  ]);
+}
+
+async function verifyAsset(blob: Blob, asset: BundleManifestAsset): Promise<string | null> {
+  if (blob.size !== asset.size) return `Corrupt: expected ${asset.size} bytes, found ${blob.size}.`;
+  return await hashBlob(blob) === asset.hash ? null : "Corrupt: content does not match its hash.";
+}
+
+function readManifest(value: unknown): BundleManifest {
+  if (!isObject(value) || value.format !== BUNDLE_FORMAT) throw new Error("manifest.json is not a bundle manifest.");
+  if (typeof value.formatVersion !== "number" || value.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Bundle format version ${String(value.formatVersion)} is not supported.`);
+  }
+  const assets = Array.isArray(value.assets) ? value.assets : [];
+  const valid = assets.every((asset) => (
+    isObject(asset)
+    && typeof asset.id === "string"
+    && typeof asset.path === "string"
+    && typeof asset.hash === "string"
+    && typeof asset.size === "number"
+    && typeof asset.mimeType === "string"
+  ));
+  if (!valid) throw new Error("manifest.json lists malformed assets.");
+  return { ...(value as BundleManifest), project: typeof value.project === "string" ? value.project : PROJECT_PATH };
+}
+
+// Verifies every asset against the manifest and hands intact ones to `store`.
+// Stored assets may come back under another id when the content already
+// existed; the returned project is rewritten to those ids. The project itself
+// is not validated here.
+export async function importBundle(
+  file: Blob,
+  store: (blob: Blob, asset: BundleManifestAsset, name?: string) => Promise<AssetRef>
+): Promise<BundleImport> {
+  const entries = await readZipEntries(file);
+  const readText = async (path: string) => {
+    const entry = entries.find((item) => item.name === path);
+    if (!entry) throw new Error(`Bundle contains no ${path}.`);
+    return (await openZipEntry(file, entry)).text();
+  };
+
+  const manifest = readManifest(JSON.parse(await readText(MANIFEST_PATH)));
+  const project: unknown = JSON.parse(await readText(manifest.project));
+  const refs = isObject(project) && Array.isArray(project.assets) ? project.assets : [];
+  const issues: ValidationIssue[] = [];
+  const ids = new Map<string, string>();
+
+  for (const asset of manifest.assets) {
+    const entry = entries.find((item) => item.name === asset.path);
+    if (!entry) {
+      issues.push({ path: asset.path, message: "Missing from the bundle." });
+      continue;
+    }
+    try {
+      const blob = (await openZipEntry(file, entry)).slice(0, undefined, asset.mimeType);
+      const problem = await verifyAsset(blob, asset);
+      if (problem) {
+        issues.push({ path: asset.path, message: problem });
+        continue;
+      }
+      const ref = refs.find((item) => isObject(item) && item.id === asset.id);
+      const name = isObject(ref) && typeof ref.name === "string" ? ref.name : undefined;
+      const stored = await store(blob, asset, name);
+      ids.set(asset.id, stored.id);
+    } catch (error) {
+      issues.push({ path: asset.path, message: `Not imported: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  refs.forEach((ref, index) => {
+    if (!isObject(ref) || typeof ref.id !== "string") return;
+    if (!manifest.assets.some((asset) => asset.id === ref.id)) {
+      issues.push({ path: `$.assets[${index}]`, message: "Not contained in the bundle." });
+    }
+    const id = ids.get(ref.id);
+    if (!id || id === ref.id) return;
+    if (isObject(project) && Array.isArray(project.surfaces)) {
+      for (const surface of project.surfaces) {
+        if (isObject(surface) && isObject(surface.content) && surface.content.assetId === ref.id) {
+          surface.content.assetId = id;
+        }
+      }
+    }
+    ref.id = id;
+  });
+
+  return { project, issues };
+}
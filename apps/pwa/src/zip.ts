@@ -0,0 +1,189 @@
+// Minimal ZIP support for project bundles. Entries are written uncompressed
+// (media is already compressed) and archives are assembled from Blob parts,
+// so entry content is streamed instead of copied into memory. Reading also
+// accepts deflated entries written by other tools. ZIP64 is not supported.
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export type ZipSource = {
+  name: string;
+  data: Blob;
+};
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export async function readChunks(blob: Blob, onChunk: (chunk: Uint8Array) => void): Promise<void> {
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    onChunk(value);
+  }
+}
+
+export async function crc32Blob(blob: Blob): Promise<number> {
+  let crc = MAX_UINT32;
+  await readChunks(blob, (chunk) => {
+    for (let i = 0; i < chunk.length; i += 1) crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ MAX_UINT32) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export async function createZip(sources: ZipSource[], modified = new Date()): Promise<Blob> {
+  if (sources.length > 0xffff) throw new Error("Too many entries for a ZIP archive.");
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let centralSize = 0;
+  let offset = 0;
+
+  for (const source of sources) {
+    if (source.data.size > MAX_UINT32) throw new Error(`${source.name} is too large for a ZIP archive.`);
+    const name = encoder.encode(source.name);
+    const crc = await crc32Blob(source.data);
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, stamp.time, true);
+    localView.setUint16(12, stamp.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, source.data.size, true);
+    localView.setUint32(22, source.data.size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const header = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, CENTRAL_HEADER, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, UTF8_FLAG, true);
+    headerView.setUint16(10, METHOD_STORED, true);
+    headerView.setUint16(12, stamp.time, true);
+    headerView.setUint16(14, stamp.date, true);
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, source.data.size, true);
+    headerView.setUint32(24, source.data.size, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, source.data);
+    central.push(header);
+    centralSize += header.length;
+    offset += local.length + source.data.size;
+    if (offset > MAX_UINT32) throw new Error("Bundle exceeds the 4 GiB ZIP limit.");
+  }
+
+  const end = new Uint8Array(END_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, sources.length, true);
+  endView.setUint16(10, sources.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: "application/zip" });
+}
+
+async function readView(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// Lists the central directory; only the archive tail is read.
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, blob.size - END_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(blob, tailStart, blob.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_SIZE; i >= 0; i -= 1) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error("Not a ZIP archive.");
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (centralOffset + centralSize > blob.size) throw new Error("ZIP central directory is truncated.");
+
+  const view = await readView(blob, centralOffset, centralOffset + centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i += 1) {
+    if (position + CENTRAL_HEADER_SIZE > view.byteLength || view.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw new Error("ZIP central directory is corrupt.");
+    }
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const nameStart = view.byteOffset + position + CENTRAL_HEADER_SIZE;
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, nameStart, nameLength)),
+      method: view.getUint16(position + 10, true),
+      crc32: view.getUint32(position + 16, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      headerOffset: view.getUint32(position + 42, true)
+    });
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Content of an entry as a Blob. Stored entries are a slice of the archive and
+// are not read at all; deflated entries are decompressed as a stream.
+export async function openZipEntry(blob: Blob, entry: ZipEntry): Promise<Blob> {
+  const header = await readView(blob, entry.headerOffset, entry.headerOffset + LOCAL_HEADER_SIZE);
+  if (header.byteLength < LOCAL_HEADER_SIZE || header.getUint32(0, true) !== LOCAL_HEADER) {
+    throw new Error(`ZIP entry ${entry.name} is corrupt.`);
+  }
+  const start = entry.headerOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+  if (start + entry.compressedSize > blob.size) throw new Error(`ZIP entry ${entry.name} is truncated.`);
+  const data = blob.slice(start, start + entry.compressedSize);
+  if (entry.method === METHOD_STORED) return data;
+  if (entry.method === METHOD_DEFLATE) {
+    return new Response(data.stream().pipeThrough(new DecompressionStream("deflate-raw"))).blob();
+  }
+  throw new Error(`ZIP entry ${entry.name} uses unsupported compression method ${entry.method}.`);
+}
@@ -1,5 +1,8 @@
 export type ISO8601 = string;
 
+// Version of the Project document written by this package.
+export const PROJECT_SCHEMA_VERSION = 2;
+
 export type Point2D = {
   x: number;
   y: number;
@@ -9,6 +12,37 @@ export type Quad = [Point2D, Point2D, Point2D, Point2D];
 
 export type Polygon = Point2D[];
 
+export type MaskMode = "include" | "exclude";
+
+export type MaskCurve = {
+  c1: Point2D;
+  c2: Point2D;
+};
+
+export type SurfaceMask = {
+  id: string;
+  mode: MaskMode;
+  polygon: Polygon;
+  curves?: (MaskCurve | null)[];
+  feather?: number;
+  edgeFeather?: number[];
+};
+
+export type MeshInterpolation = "linear" | "bezier";
+
+export type MeshTangent = {
+  u: Point2D;
+  v: Point2D;
+};
+
+export type MeshWarp = {
+  columns: number;
+  rows: number;
+  points: Point2D[];
+  interpolation: MeshInterpolation;
+  tangents?: MeshTangent[];
+};
+
 export enum SurfaceType {
   IMAGE = "IMAGE",
   VIDEO = "VIDEO",
@@ -55,22 +89,143 @@ export type LiveVideoConfig = {
   exposureMode?: "continuous" | "manual";
 };
 
+// Binary content is kept in an asset store; hash is the SHA-256 of the content in hex.
 export type AssetRef = {
   id: string;
   kind: "image" | "video";
+  name?: string;
+  mimeType: string;
+  size: number;
+  hash: string;
   width: number;
   height: number;
   duration?: number;
 };
 
+export type LoopMode = "infinite" | "once" | "count";
+
+// Seconds on the playback clock; mediaDuration is the natural length of video content.
 export type Timeline = {
   start: number;
   duration: number;
-  loop?: boolean;
+  loopMode?: LoopMode;
+  loopCount?: number;
+  mediaDuration?: number;
+};
+
+export type SurfaceShape = "rect" | "circle" | "triangle";
+
+// src is a color for COLOR, TEXT and LINE surfaces and a URL for image and video
+// content; assetId takes precedence over src.
+export type SurfaceContent = {
+  src?: string;
+  assetId?: string;
+  shape?: SurfaceShape;
+  lineWidth?: number;
+  text?: string;
+  fontSize?: number;
+  vertical?: boolean;
+};
+
+export type SurfaceAnimationType =
+  | "none"
+  | "glow"
+  | "chase"
+  | "draw"
+  | "hue"
+  | "spin3d"
+  | "textflow"
+  | "pulse"
+  | "flip";
+
+export type SurfaceAnimation = {
+  type: SurfaceAnimationType;
+  speed: number;
+};
+
+export type AudioSettings = {
+  muted: boolean;
+  volume: number;
+};
+
+export type EdgeBlendCurve = "linear" | "smoothstep" | "cosine";
+
+export type EdgeBlend = {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  gamma: number;
+  curve: EdgeBlendCurve;
+};
+
+export type OutputRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Applied to the composited output: radial lens distortion, then a keystone
+// quad whose corners are normalised to the output region.
+export type OutputCorrection = {
+  k1: number;
+  k2: number;
+  keystone: Quad;
+};
+
+export type Output = {
+  id: string;
+  name: string;
+  region: OutputRegion;
+  edgeBlend: EdgeBlend;
+  correction?: OutputCorrection;
 };
 
+// 3D LUT as read from a .cube file; entries are RGB triplets, red changing fastest.
+export type ColorLut = {
+  title?: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: number[];
+};
+
+export type ColorCorrection = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  gamma: number;
+  hue: number;
+  lut?: ColorLut;
+};
+
+export type Easing = "linear" | "ease-in" | "ease-out" | "ease-in-out" | "step";
+
+export type KeyframeMask = {
+  id: string;
+  polygon: Polygon;
+  curves?: (MaskCurve | null)[];
+};
+
+// Times are seconds on the playback clock; easing applies towards the next keyframe.
+export type Keyframe = {
+  time: number;
+  easing?: Easing;
+  quad?: Quad;
+  masks?: KeyframeMask[];
+  // Polyline points of LINE surfaces.
+  points?: Polygon;
+  opacity?: number;
+  scale?: { x: number; y: number };
+  rotation?: number;
+};
+
+export type BlendMode = "normal" | "add" | "screen" | "multiply" | "overlay" | "difference";
+
 export type Surface = {
   id: string;
+  name?: string;
   type: SurfaceType;
   quad: Quad;
   width: number;
@@ -80,10 +235,84 @@ export type Surface = {
   opacity: number;
   zIndex: number;
   mask?: Polygon;
+  masks?: SurfaceMask[];
+  // LINE surfaces draw these points in stage space instead of their quad.
+  points?: Polygon;
+  mesh?: MeshWarp;
   scale: SurfaceScale;
+  // Degrees clockwise about the quad center, applied after scale.
+  rotation?: number;
   fullscreen: FullscreenLayout;
   glowColor?: string;
+  colorCorrection?: ColorCorrection;
+  blendMode?: BlendMode;
+  keyframes?: Keyframe[];
+  content?: SurfaceContent;
+  animation?: SurfaceAnimation;
+  audio?: AudioSettings;
+  timeline?: Timeline;
   liveVideo?: LiveVideoConfig;
+  groupId?: string;
+};
+
+// Maps `source` onto `target`; members are drawn through this homography on
+// top of their own quads, nested groups apply their parent's afterwards.
+export type GroupTransform = {
+  source: Quad;
+  target: Quad;
+};
+
+// Visibility and lock apply to all members, opacity multiplies theirs.
+export type SurfaceGroup = {
+  id: string;
+  name: string;
+  parentId?: string;
+  visible: boolean;
+  locked?: boolean;
+  opacity: number;
+  collapsed?: boolean;
+  transform?: GroupTransform;
+};
+
+export type ScenePlaybackMode = "infinite" | "count" | "timer";
+
+// The scene's playback clock: it loops every `duration` seconds and stops after
+// `count` loops or `stopAfter` seconds, depending on mode.
+export type SceneTimeline = {
+  duration: number;
+  mode: ScenePlaybackMode;
+  count?: number;
+  stopAfter?: number;
+};
+
+export type SceneTransitionType = "cut" | "crossfade";
+
+// Applied when switching to the scene during playback.
+export type SceneTransition = {
+  type: SceneTransitionType;
+  duration: number;
+};
+
+export type Scene = {
+  id: string;
+  name: string;
+  // Surfaces shown in this scene; every surface belongs to exactly one scene.
+  surfaceIds: string[];
+  timeline: SceneTimeline;
+  transition?: SceneTransition;
+};
+
+// A step of the cue sheet. GO jumps to `time` in the target scene, fading over
+// `fade` seconds (0 cuts). With autoFollow set, the next cue fires that many
+// seconds after this cue's fade has finished.
+export type Cue = {
+  id: string;
+  number: number;
+  label: string;
+  sceneId: string;
+  time: number;
+  fade: number;
+  autoFollow?: number;
 };
 
 export type Project = {
@@ -92,5 +321,17 @@ export type Project = {
   schemaVersion: number;
   createdAt: ISO8601;
   updatedAt: ISO8601;
+  // Surfaces of all scenes.
   surfaces: Surface[];
+  groups?: SurfaceGroup[];
+  scenes: Scene[];
+  activeSceneId?: string;
+  // Ordered by cue number.
+  cues?: Cue[];
+  outputs?: Output[];
+  // Assets referenced by the surfaces.
+  assets?: AssetRef[];
 };
+
+export * from "./validation";
+export * from "./migrations";
@@ -0,0 +1,233 @@
+import { PROJECT_SCHEMA_VERSION, SurfaceType } from "./index";
+import type { Project } from "./index";
+
+export type MigrationChange = {
+  // Schema version the step migrated to.
+  version: number;
+  // JSONPath of the changed value in the migrated document.
+  path: string;
+  message: string;
+};
+
+export type MigrationReport = {
+  fromVersion: number;
+  toVersion: number;
+  changes: MigrationChange[];
+};
+
+export type MigrationResult = {
+  project: Project;
+  report: MigrationReport;
+};
+
+type Fields = Record<string, unknown>;
+
+type ReportChange = (path: string, message: string) => void;
+
+// Upgrades a document from `version - 1` to `version`. Steps receive a private
+// copy and may modify it in place.
+export type MigrationStep = {
+  version: number;
+  description: string;
+  migrate: (document: unknown, change: ReportChange) => unknown;
+};
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function createId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `id-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+}
+
+// Version 0 keyframes used the editor's flat scaleX/scaleY and maskPoints.
+function migrateLegacyKeyframe(keyframe: unknown): unknown {
+  if (!isObject(keyframe)) return keyframe;
+  const { scaleX, scaleY, maskPoints, ...rest } = keyframe;
+  const next: Fields = { ...rest };
+  if (scaleX !== undefined || scaleY !== undefined) {
+    next.scale = { x: scaleX ?? 1, y: scaleY ?? scaleX ?? 1 };
+  }
+  if (maskPoints !== undefined) next.points = maskPoints;
+  return next;
+}
+
+function migrateLegacySurface(surface: unknown, index: number, change: ReportChange): unknown {
+  if (!isObject(surface)) return surface;
+  const path = `$.surfaces[${index}]`;
+  const {
+    scaleX,
+    scaleY,
+    scaleMode,
+    isFullscreen,
+    fullscreenFit,
+    fullscreenAlign,
+    src,
+    shape,
+    lineWidth,
+    textContent,
+    fontSize,
+    isVertical,
+    animationType,
+    animationSpeed,
+    isMuted,
+    volume,
+    timelineStart,
+    timelineDuration,
+    loopMode,
+    loopCount,
+    videoDuration,
+    maskPoints,
+    ...rest
+  } = surface;
+  const next: Fields = {
+    ...rest,
+    scale: { x: scaleX ?? 1, y: scaleY ?? 1, mode: scaleMode ?? "uniform" },
+    fullscreen: {
+      enabled: isFullscreen ?? false,
+      fit: fullscreenFit ?? "contain",
+      align: fullscreenAlign ?? "center"
+    },
+    content: { src, shape, lineWidth, text: textContent, fontSize, vertical: isVertical },
+    animation: { type: animationType ?? "none", speed: animationSpeed ?? 0 },
+    audio: { muted: isMuted ?? rest.type === SurfaceType.LIVE_VIDEO, volume: volume ?? 1 },
+    timeline: {
+      start: timelineStart ?? 0,
+      duration: timelineDuration ?? 10,
+      loopMode,
+      loopCount,
+      mediaDuration: videoDuration
+    }
+  };
+  change(path, "Moved editor fields into scale, fullscreen, content, animation, audio and timeline.");
+
+  const filled: string[] = [];
+  if (next.name === undefined) {
+    next.name = `Surface ${index + 1}`;
+    filled.push("name");
+  }
+  if (typeof next.rotation !== "number" || !Number.isFinite(next.rotation)) {
+    next.rotation = 0;
+    filled.push("rotation");
+  }
+  if (next.locked === undefined) {
+    next.locked = false;
+    filled.push("locked");
+  }
+  if (filled.length > 0) change(path, `Filled missing ${filled.join(", ")}.`);
+
+  if (rest.type === SurfaceType.LINE) {
+    if (maskPoints !== undefined) next.points = maskPoints;
+  } else if (next.masks === undefined && Array.isArray(maskPoints) && maskPoints.length >= 3) {
+    next.masks = [{ id: createId(), mode: "include", polygon: maskPoints }];
+    change(`${path}.masks`, "Converted the single clip polygon into an include mask.");
+  }
+
+  if (Array.isArray(rest.keyframes) && rest.keyframes.length > 0) {
+    next.keyframes = rest.keyframes.map(migrateLegacyKeyframe);
+    change(`${path}.keyframes`, "Moved keyframe scale and line points into scale and points.");
+  }
+  return next;
+}
+
+// Version 0 is the editor state written before Project documents existed:
+// a bare surface array or { surfaces, outputs }.
+function migrateToVersion1(document: unknown, change: ReportChange): unknown {
+  const record: Fields = Array.isArray(document) ? { surfaces: document } : isObject(document) ? document : {};
+  const now = new Date().toISOString();
+  const next: Fields = {
+    id: createId(),
+    name: "Untitled",
+    schemaVersion: 1,
+    createdAt: now,
+    updatedAt: now,
+    ...record
+  };
+  next.schemaVersion = 1;
+  change("$", "Added project id, name and timestamps.");
+  if (Array.isArray(next.surfaces)) {
+    next.surfaces = next.surfaces.map((surface, index) => migrateLegacySurface(surface, index, change));
+  }
+  return next;
+}
+
+// Version 1 projects are a single look; all surfaces move into one scene whose
+// loop covers every surface timeline.
+function migrateToVersion2(document: unknown, change: ReportChange): unknown {
+  if (!isObject(document)) return document;
+  const surfaces = Array.isArray(document.surfaces) ? document.surfaces : [];
+  const duration = surfaces.reduce<number>((max, surface) => {
+    if (!isObject(surface) || !isObject(surface.timeline)) return max;
+    const end = Number(surface.timeline.start) + Number(surface.timeline.duration);
+    return Number.isFinite(end) ? Math.max(max, end) : max;
+  }, 10);
+  const scene = {
+    id: createId(),
+    name: "Scene 1",
+    surfaceIds: surfaces.flatMap((surface) => (isObject(surface) && typeof surface.id === "string" ? [surface.id] : [])),
+    timeline: { duration, mode: "infinite" }
+  };
+  change("$.scenes", "Moved all surfaces into a single scene.");
+  return { ...document, schemaVersion: 2, scenes: [scene], activeSceneId: scene.id };
+}
+
+const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    description: "Project document with metadata and structured surface fields",
+    migrate: migrateToVersion1
+  },
+  {
+    version: 2,
+    description: "Scenes with their own surfaces, timeline and transition",
+    migrate: migrateToVersion2
+  }
+];
+
+// Documents without schemaVersion are version 0.
+export function getSchemaVersion(document: unknown): number {
+  if (Array.isArray(document)) return 0;
+  if (!isObject(document)) {
+    throw new Error("Project file must contain a JSON object or array.");
+  }
+  const version = document.schemaVersion;
+  if (version === undefined) return 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error("schemaVersion must be a non-negative integer.");
+  }
+  return version;
+}
+
+// Runs every step between the two versions on a copy of the document.
+// The result still has to be validated.
+export function migrate(
+  project: unknown,
+  fromVersion: number,
+  toVersion: number = PROJECT_SCHEMA_VERSION
+): MigrationResult {
+  const newest = Math.max(fromVersion, toVersion);
+  if (newest > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      `Project schema version ${newest} is newer than the supported version ${PROJECT_SCHEMA_VERSION}.`
+    );
+  }
+  if (fromVersion > toVersion) {
+    throw new Error(`Cannot migrate from schema version ${fromVersion} down to ${toVersion}.`);
+  }
+
+  const changes: MigrationChange[] = [];
+  let document: unknown = project === undefined ? undefined : JSON.parse(JSON.stringify(project));
+  for (let version = fromVersion + 1; version <= toVersion; version += 1) {
+    const step = MIGRATIONS.find((item) => item.version === version);
+    if (!step) throw new Error(`No migration to schema version ${version}.`);
+    document = step.migrate(document, (path, message) => changes.push({ version, path, message }));
+  }
+
+  return {
+    project: document as Project,
+    report: { fromVersion, toVersion, changes }
+  };
+}
@@ -0,0 +1,580 @@
+import { PROJECT_SCHEMA_VERSION, SurfaceType } from "./index";
+import type { Polygon, Quad } from "./index";
+
+// Paths use JSONPath notation, e.g. `$.surfaces[2].quad[1].x`.
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type GeometryCheck<T> = (value: T) => { ok: true } | { ok: false; reason: string };
+
+// Geometry checks live in the renderer, which depends on this package; callers pass
+// them in so that degenerate quads are reported like any other field.
+export type ProjectValidationOptions = {
+  validateQuad?: GeometryCheck<Quad>;
+};
+
+export type ProjectValidation = {
+  ok: boolean;
+  issues: ValidationIssue[];
+  // Entries with at least one issue; every other entry can be imported on its own.
+  invalidSurfaces: number[];
+  invalidOutputs: number[];
+  invalidAssets: number[];
+  invalidScenes: number[];
+  invalidCues: number[];
+  invalidGroups: number[];
+};
+
+type Context = {
+  issues: ValidationIssue[];
+  options: ProjectValidationOptions;
+};
+
+type Fields = Record<string, unknown>;
+
+const EASINGS = ["linear", "ease-in", "ease-out", "ease-in-out", "step"];
+const BLEND_MODES = ["normal", "add", "screen", "multiply", "overlay", "difference"];
+const MASK_MODES = ["include", "exclude"];
+const SCALE_MODES = ["uniform", "free"];
+const FULLSCREEN_FITS = ["stretch", "contain", "cover"];
+const FULLSCREEN_ALIGNS = ["center", "top-left", "top-right", "bottom-left", "bottom-right"];
+const SHAPES = ["rect", "circle", "triangle"];
+const ANIMATION_TYPES = ["none", "glow", "chase", "draw", "hue", "spin3d", "textflow", "pulse", "flip"];
+const LOOP_MODES = ["infinite", "once", "count"];
+const MESH_INTERPOLATIONS = ["linear", "bezier"];
+const EDGE_BLEND_CURVES = ["linear", "smoothstep", "cosine"];
+const LIVE_VIDEO_MODES = ["continuous", "manual"];
+const ASSET_KINDS = ["image", "video"];
+const SCENE_PLAYBACK_MODES = ["infinite", "count", "timer"];
+const SCENE_TRANSITIONS = ["cut", "crossfade"];
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 256;
+
+function report(context: Context, path: string, message: string): void {
+  context.issues.push({ path, message });
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkObject(context: Context, value: unknown, path: string): value is Fields {
+  if (isObject(value)) return true;
+  report(context, path, "Expected an object.");
+  return false;
+}
+
+function checkArray(context: Context, value: unknown, path: string): value is unknown[] {
+  if (Array.isArray(value)) return true;
+  report(context, path, "Expected an array.");
+  return false;
+}
+
+function checkString(context: Context, value: unknown, path: string, optional = false): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== "string") report(context, path, "Expected a string.");
+}
+
+function checkId(context: Context, value: unknown, path: string): void {
+  if (typeof value !== "string" || value.length === 0) report(context, path, "Expected a non-empty string.");
+}
+
+function checkBoolean(context: Context, value: unknown, path: string, optional = false): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== "boolean") report(context, path, "Expected a boolean.");
+}
+
+function checkNumber(
+  context: Context,
+  value: unknown,
+  path: string,
+  { min, max, integer = false, optional = false }: { min?: number; max?: number; integer?: boolean; optional?: boolean } = {}
+): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    report(context, path, "Expected a finite number.");
+    return;
+  }
+  if (integer && !Number.isInteger(value)) {
+    report(context, path, "Expected an integer.");
+  } else if (min !== undefined && value < min) {
+    report(context, path, `Must be at least ${min}.`);
+  } else if (max !== undefined && value > max) {
+    report(context, path, `Must be at most ${max}.`);
+  }
+}
+
+function checkEnum(context: Context, value: unknown, path: string, allowed: readonly string[], optional = false): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    report(context, path, `Expected one of ${allowed.join(", ")}.`);
+  }
+}
+
+function checkTimestamp(context: Context, value: unknown, path: string): void {
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    report(context, path, "Expected an ISO 8601 timestamp.");
+  }
+}
+
+function checkPoint(context: Context, value: unknown, path: string): boolean {
+  if (!checkObject(context, value, path)) return false;
+  const before = context.issues.length;
+  checkNumber(context, value.x, `${path}.x`);
+  checkNumber(context, value.y, `${path}.y`);
+  return context.issues.length === before;
+}
+
+function checkPoints(context: Context, value: unknown, path: string, minLength = 0): value is Polygon {
+  if (!checkArray(context, value, path)) return false;
+  const before = context.issues.length;
+  if (value.length < minLength) report(context, path, `Expected at least ${minLength} points.`);
+  value.forEach((point, index) => checkPoint(context, point, `${path}[${index}]`));
+  return context.issues.length === before;
+}
+
+function checkQuad(context: Context, value: unknown, path: string): void {
+  if (!checkArray(context, value, path)) return;
+  if (value.length !== 4) {
+    report(context, path, "Expected exactly 4 points.");
+    return;
+  }
+  if (!checkPoints(context, value, path)) return;
+  const result = context.options.validateQuad?.(value as Quad);
+  if (result && !result.ok) report(context, path, result.reason);
+}
+
+function checkCurves(context: Context, value: unknown, path: string): void {
+  if (value === undefined || !checkArray(context, value, path)) return;
+  value.forEach((curve, index) => {
+    const curvePath = `${path}[${index}]`;
+    if (curve === null || !checkObject(context, curve, curvePath)) return;
+    checkPoint(context, curve.c1, `${curvePath}.c1`);
+    checkPoint(context, curve.c2, `${curvePath}.c2`);
+  });
+}
+
+function checkMask(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkEnum(context, value.mode, `${path}.mode`, MASK_MODES);
+  checkPoints(context, value.polygon, `${path}.polygon`, 3);
+  checkCurves(context, value.curves, `${path}.curves`);
+  checkNumber(context, value.feather, `${path}.feather`, { min: 0, optional: true });
+  if (value.edgeFeather !== undefined && checkArray(context, value.edgeFeather, `${path}.edgeFeather`)) {
+    value.edgeFeather.forEach((feather, index) => (
+      checkNumber(context, feather, `${path}.edgeFeather[${index}]`, { min: 0 })
+    ));
+  }
+}
+
+function checkMesh(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkNumber(context, value.columns, `${path}.columns`, { min: 2, integer: true });
+  checkNumber(context, value.rows, `${path}.rows`, { min: 2, integer: true });
+  checkEnum(context, value.interpolation, `${path}.interpolation`, MESH_INTERPOLATIONS);
+  if (checkPoints(context, value.points, `${path}.points`)) {
+    const expected = Number(value.columns) * Number(value.rows);
+    if (Number.isInteger(expected) && value.points.length !== expected) {
+      report(context, `${path}.points`, `Expected columns × rows = ${expected} points.`);
+    }
+  }
+  if (value.tangents !== undefined && checkArray(context, value.tangents, `${path}.tangents`)) {
+    if (Array.isArray(value.points) && value.tangents.length !== value.points.length) {
+      report(context, `${path}.tangents`, "Expected one tangent pair per mesh point.");
+    }
+    value.tangents.forEach((tangent, index) => {
+      const tangentPath = `${path}.tangents[${index}]`;
+      if (!checkObject(context, tangent, tangentPath)) return;
+      checkPoint(context, tangent.u, `${tangentPath}.u`);
+      checkPoint(context, tangent.v, `${tangentPath}.v`);
+    });
+  }
+}
+
+function checkTriplet(context: Context, value: unknown, path: string): void {
+  if (!checkArray(context, value, path)) return;
+  if (value.length !== 3) report(context, path, "Expected 3 numbers.");
+  value.forEach((channel, index) => checkNumber(context, channel, `${path}[${index}]`));
+}
+
+function checkColorCorrection(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkNumber(context, value.brightness, `${path}.brightness`, { min: 0 });
+  checkNumber(context, value.contrast, `${path}.contrast`, { min: 0 });
+  checkNumber(context, value.saturation, `${path}.saturation`, { min: 0 });
+  checkNumber(context, value.gamma, `${path}.gamma`, { min: 0 });
+  checkNumber(context, value.hue, `${path}.hue`);
+  if (value.lut === undefined || !checkObject(context, value.lut, `${path}.lut`)) return;
+  const lut = value.lut;
+  checkString(context, lut.title, `${path}.lut.title`, true);
+  checkNumber(context, lut.size, `${path}.lut.size`, { min: MIN_LUT_SIZE, max: MAX_LUT_SIZE, integer: true });
+  checkTriplet(context, lut.domainMin, `${path}.lut.domainMin`);
+  checkTriplet(context, lut.domainMax, `${path}.lut.domainMax`);
+  if (!checkArray(context, lut.data, `${path}.lut.data`)) return;
+  const size = Number(lut.size);
+  if (lut.data.length !== size ** 3 * 3) {
+    report(context, `${path}.lut.data`, "Expected size³ RGB triplets.");
+  }
+  const invalid = lut.data.findIndex((entry) => typeof entry !== "number" || !Number.isFinite(entry));
+  if (invalid >= 0) report(context, `${path}.lut.data[${invalid}]`, "Expected a finite number.");
+}
+
+function checkKeyframe(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkNumber(context, value.time, `${path}.time`, { min: 0 });
+  checkEnum(context, value.easing, `${path}.easing`, EASINGS, true);
+  if (value.quad !== undefined) checkQuad(context, value.quad, `${path}.quad`);
+  if (value.points !== undefined) checkPoints(context, value.points, `${path}.points`);
+  if (value.masks !== undefined && checkArray(context, value.masks, `${path}.masks`)) {
+    value.masks.forEach((mask, index) => {
+      const maskPath = `${path}.masks[${index}]`;
+      if (!checkObject(context, mask, maskPath)) return;
+      checkId(context, mask.id, `${maskPath}.id`);
+      checkPoints(context, mask.polygon, `${maskPath}.polygon`);
+      checkCurves(context, mask.curves, `${maskPath}.curves`);
+    });
+  }
+  checkNumber(context, value.opacity, `${path}.opacity`, { min: 0, max: 1, optional: true });
+  if (value.scale !== undefined && checkObject(context, value.scale, `${path}.scale`)) {
+    checkNumber(context, value.scale.x, `${path}.scale.x`);
+    checkNumber(context, value.scale.y, `${path}.scale.y`);
+  }
+  checkNumber(context, value.rotation, `${path}.rotation`, { optional: true });
+}
+
+function checkLiveVideo(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkString(context, value.deviceId, `${path}.deviceId`, true);
+  for (const key of ["width", "height", "frameRate", "colorTemperature"]) {
+    checkNumber(context, value[key], `${path}.${key}`, { min: 0, optional: true });
+  }
+  for (const key of ["brightness", "contrast", "saturation", "sharpness"]) {
+    checkNumber(context, value[key], `${path}.${key}`, { optional: true });
+  }
+  checkEnum(context, value.whiteBalanceMode, `${path}.whiteBalanceMode`, LIVE_VIDEO_MODES, true);
+  checkEnum(context, value.exposureMode, `${path}.exposureMode`, LIVE_VIDEO_MODES, true);
+}
+
+function checkSurface(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkString(context, value.name, `${path}.name`, true);
+  checkEnum(context, value.type, `${path}.type`, Object.values(SurfaceType));
+  checkQuad(context, value.quad, `${path}.quad`);
+  checkNumber(context, value.width, `${path}.width`, { min: 0 });
+  checkNumber(context, value.height, `${path}.height`, { min: 0 });
+  checkBoolean(context, value.locked, `${path}.locked`, true);
+  checkBoolean(context, value.visible, `${path}.visible`);
+  checkNumber(context, value.opacity, `${path}.opacity`, { min: 0, max: 1 });
+  checkNumber(context, value.zIndex, `${path}.zIndex`);
+  if (value.groupId !== undefined) checkId(context, value.groupId, `${path}.groupId`);
+  if (value.mask !== undefined) checkPoints(context, value.mask, `${path}.mask`, 3);
+  if (value.masks !== undefined && checkArray(context, value.masks, `${path}.masks`)) {
+    value.masks.forEach((mask, index) => checkMask(context, mask, `${path}.masks[${index}]`));
+  }
+  if (value.points !== undefined) checkPoints(context, value.points, `${path}.points`, 2);
+  if (value.mesh !== undefined) checkMesh(context, value.mesh, `${path}.mesh`);
+
+  if (checkObject(context, value.scale, `${path}.scale`)) {
+    checkNumber(context, value.scale.x, `${path}.scale.x`);
+    checkNumber(context, value.scale.y, `${path}.scale.y`);
+    checkEnum(context, value.scale.mode, `${path}.scale.mode`, SCALE_MODES);
+  }
+  checkNumber(context, value.rotation, `${path}.rotation`, { optional: true });
+  if (checkObject(context, value.fullscreen, `${path}.fullscreen`)) {
+    checkBoolean(context, value.fullscreen.enabled, `${path}.fullscreen.enabled`);
+    checkEnum(context, value.fullscreen.fit, `${path}.fullscreen.fit`, FULLSCREEN_FITS);
+    checkEnum(context, value.fullscreen.align, `${path}.fullscreen.align`, FULLSCREEN_ALIGNS);
+  }
+
+  checkString(context, value.glowColor, `${path}.glowColor`, true);
+  if (value.colorCorrection !== undefined) checkColorCorrection(context, value.colorCorrection, `${path}.colorCorrection`);
+  checkEnum(context, value.blendMode, `${path}.blendMode`, BLEND_MODES, true);
+  if (value.keyframes !== undefined && checkArray(context, value.keyframes, `${path}.keyframes`)) {
+    value.keyframes.forEach((keyframe, index) => checkKeyframe(context, keyframe, `${path}.keyframes[${index}]`));
+  }
+
+  if (value.content !== undefined && checkObject(context, value.content, `${path}.content`)) {
+    const content = value.content;
+    checkString(context, content.src, `${path}.content.src`, true);
+    if (content.assetId !== undefined) checkId(context, content.assetId, `${path}.content.assetId`);
+    checkEnum(context, content.shape, `${path}.content.shape`, SHAPES, true);
+    checkNumber(context, content.lineWidth, `${path}.content.lineWidth`, { min: 0, optional: true });
+    checkString(context, content.text, `${path}.content.text`, true);
+    checkNumber(context, content.fontSize, `${path}.content.fontSize`, { min: 0, optional: true });
+    checkBoolean(context, content.vertical, `${path}.content.vertical`, true);
+  }
+  if (value.animation !== undefined && checkObject(context, value.animation, `${path}.animation`)) {
+    checkEnum(context, value.animation.type, `${path}.animation.type`, ANIMATION_TYPES);
+    checkNumber(context, value.animation.speed, `${path}.animation.speed`, { min: 0 });
+  }
+  if (value.audio !== undefined && checkObject(context, value.audio, `${path}.audio`)) {
+    checkBoolean(context, value.audio.muted, `${path}.audio.muted`);
+    checkNumber(context, value.audio.volume, `${path}.audio.volume`, { min: 0, max: 1 });
+  }
+  if (value.timeline !== undefined && checkObject(context, value.timeline, `${path}.timeline`)) {
+    const timeline = value.timeline;
+    checkNumber(context, timeline.start, `${path}.timeline.start`, { min: 0 });
+    checkNumber(context, timeline.duration, `${path}.timeline.duration`, { min: 0 });
+    checkEnum(context, timeline.loopMode, `${path}.timeline.loopMode`, LOOP_MODES, true);
+    checkNumber(context, timeline.loopCount, `${path}.timeline.loopCount`, { min: 1, integer: true, optional: true });
+    checkNumber(context, timeline.mediaDuration, `${path}.timeline.mediaDuration`, { min: 0, optional: true });
+  }
+  if (value.liveVideo !== undefined) checkLiveVideo(context, value.liveVideo, `${path}.liveVideo`);
+}
+
+function checkOutput(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkString(context, value.name, `${path}.name`);
+  if (checkObject(context, value.region, `${path}.region`)) {
+    checkNumber(context, value.region.x, `${path}.region.x`, { min: 0, max: 1 });
+    checkNumber(context, value.region.y, `${path}.region.y`, { min: 0, max: 1 });
+    checkNumber(context, value.region.width, `${path}.region.width`, { min: 0, max: 1 });
+    checkNumber(context, value.region.height, `${path}.region.height`, { min: 0, max: 1 });
+  }
+  if (checkObject(context, value.edgeBlend, `${path}.edgeBlend`)) {
+    const edgeBlend = value.edgeBlend;
+    for (const edge of ["left", "right", "top", "bottom"]) {
+      checkNumber(context, edgeBlend[edge], `${path}.edgeBlend.${edge}`, { min: 0 });
+    }
+    checkNumber(context, edgeBlend.gamma, `${path}.edgeBlend.gamma`, { min: 0 });
+    checkEnum(context, edgeBlend.curve, `${path}.edgeBlend.curve`, EDGE_BLEND_CURVES);
+  }
+  if (value.correction !== undefined && checkObject(context, value.correction, `${path}.correction`)) {
+    checkNumber(context, value.correction.k1, `${path}.correction.k1`);
+    checkNumber(context, value.correction.k2, `${path}.correction.k2`);
+    checkQuad(context, value.correction.keystone, `${path}.correction.keystone`);
+  }
+}
+
+function checkAsset(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkEnum(context, value.kind, `${path}.kind`, ASSET_KINDS);
+  checkString(context, value.name, `${path}.name`, true);
+  checkString(context, value.mimeType, `${path}.mimeType`);
+  checkNumber(context, value.size, `${path}.size`, { min: 0, integer: true });
+  if (typeof value.hash !== "string" || !/^[0-9a-f]{64}$/.test(value.hash)) {
+    report(context, `${path}.hash`, "Expected a SHA-256 hex digest.");
+  }
+  checkNumber(context, value.width, `${path}.width`, { min: 0 });
+  checkNumber(context, value.height, `${path}.height`, { min: 0 });
+  checkNumber(context, value.duration, `${path}.duration`, { min: 0, optional: true });
+}
+
+function checkScene(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkString(context, value.name, `${path}.name`);
+  if (checkArray(context, value.surfaceIds, `${path}.surfaceIds`)) {
+    value.surfaceIds.forEach((id, index) => checkId(context, id, `${path}.surfaceIds[${index}]`));
+  }
+  if (checkObject(context, value.timeline, `${path}.timeline`)) {
+    const timeline = value.timeline;
+    checkNumber(context, timeline.duration, `${path}.timeline.duration`, { min: 0 });
+    checkEnum(context, timeline.mode, `${path}.timeline.mode`, SCENE_PLAYBACK_MODES);
+    checkNumber(context, timeline.count, `${path}.timeline.count`, { min: 1, integer: true, optional: true });
+    checkNumber(context, timeline.stopAfter, `${path}.timeline.stopAfter`, { min: 0, optional: true });
+  }
+  if (value.transition !== undefined && checkObject(context, value.transition, `${path}.transition`)) {
+    checkEnum(context, value.transition.type, `${path}.transition.type`, SCENE_TRANSITIONS);
+    checkNumber(context, value.transition.duration, `${path}.transition.duration`, { min: 0 });
+  }
+}
+
+function checkCue(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkNumber(context, value.number, `${path}.number`, { min: 0 });
+  checkString(context, value.label, `${path}.label`);
+  checkId(context, value.sceneId, `${path}.sceneId`);
+  checkNumber(context, value.time, `${path}.time`, { min: 0 });
+  checkNumber(context, value.fade, `${path}.fade`, { min: 0 });
+  checkNumber(context, value.autoFollow, `${path}.autoFollow`, { min: 0, optional: true });
+}
+
+function checkGroup(context: Context, value: unknown, path: string): void {
+  if (!checkObject(context, value, path)) return;
+  checkId(context, value.id, `${path}.id`);
+  checkString(context, value.name, `${path}.name`);
+  if (value.parentId !== undefined) checkId(context, value.parentId, `${path}.parentId`);
+  checkBoolean(context, value.visible, `${path}.visible`);
+  checkBoolean(context, value.locked, `${path}.locked`, true);
+  checkNumber(context, value.opacity, `${path}.opacity`, { min: 0, max: 1 });
+  checkBoolean(context, value.collapsed, `${path}.collapsed`, true);
+  if (value.transform !== undefined && checkObject(context, value.transform, `${path}.transform`)) {
+    checkQuad(context, value.transform.source, `${path}.transform.source`);
+    checkQuad(context, value.transform.target, `${path}.transform.target`);
+  }
+}
+
+// Parents must exist and must not lead back to the group itself.
+function checkGroupHierarchy(context: Context, groups: unknown[]): number[] {
+  const parents = new Map<unknown, unknown>();
+  groups.forEach((group) => {
+    if (isObject(group)) parents.set(group.id, group.parentId);
+  });
+  const invalid: number[] = [];
+  groups.forEach((group, index) => {
+    if (!isObject(group) || group.parentId === undefined) return;
+    const path = `$.groups[${index}].parentId`;
+    if (!parents.has(group.parentId)) {
+      report(context, path, `Unknown group "${String(group.parentId)}".`);
+      invalid.push(index);
+      return;
+    }
+    const visited = new Set<unknown>([group.id]);
+    for (let parent: unknown = group.parentId; parent !== undefined; parent = parents.get(parent)) {
+      if (visited.has(parent)) {
+        report(context, path, "Groups must not contain themselves.");
+        invalid.push(index);
+        return;
+      }
+      visited.add(parent);
+    }
+  });
+  return invalid;
+}
+
+// Scene membership refers to surfaces by id; a surface belongs to at most one scene.
+function checkSceneMembership(context: Context, scenes: unknown[], surfaces: unknown[]): void {
+  const surfaceIds = new Set(surfaces.map((surface) => isObject(surface) && surface.id));
+  const owners = new Map<string, number>();
+  scenes.forEach((scene, sceneIndex) => {
+    if (!isObject(scene) || !Array.isArray(scene.surfaceIds)) return;
+    scene.surfaceIds.forEach((id, index) => {
+      if (typeof id !== "string") return;
+      const path = `$.scenes[${sceneIndex}].surfaceIds[${index}]`;
+      const owner = owners.get(id);
+      if (!surfaceIds.has(id)) {
+        report(context, path, `Unknown surface "${id}".`);
+      } else if (owner !== undefined) {
+        report(context, path, `Surface "${id}" already belongs to scene ${owner + 1}.`);
+      } else {
+        owners.set(id, sceneIndex);
+      }
+    });
+  });
+}
+
+// Collects the indices of list entries that added issues, and flags repeated ids.
+function checkList(
+  context: Context,
+  value: unknown[],
+  path: string,
+  check: (context: Context, value: unknown, path: string) => void
+): number[] {
+  const invalid: number[] = [];
+  const seen = new Set<unknown>();
+  value.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    const before = context.issues.length;
+    check(context, entry, entryPath);
+    const id = isObject(entry) ? entry.id : undefined;
+    if (typeof id === "string" && seen.has(id)) report(context, `${entryPath}.id`, `Duplicate id "${id}".`);
+    seen.add(id);
+    if (context.issues.length > before) invalid.push(index);
+  });
+  return invalid;
+}
+
+export function validateSurface(value: unknown, options: ProjectValidationOptions = {}): ValidationIssue[] {
+  const context: Context = { issues: [], options };
+  checkSurface(context, value, "$");
+  return context.issues;
+}
+
+// Validates a Project document of the current schema version.
+export function validateProject(value: unknown, options: ProjectValidationOptions = {}): ProjectValidation {
+  const context: Context = { issues: [], options };
+  let invalidSurfaces: number[] = [];
+  let invalidOutputs: number[] = [];
+  let invalidAssets: number[] = [];
+  let invalidScenes: number[] = [];
+  let invalidCues: number[] = [];
+  let invalidGroups: number[] = [];
+
+  if (checkObject(context, value, "$")) {
+    checkId(context, value.id, "$.id");
+    checkString(context, value.name, "$.name");
+    if (value.schemaVersion !== PROJECT_SCHEMA_VERSION) {
+      report(context, "$.schemaVersion", `Expected schema version ${PROJECT_SCHEMA_VERSION}.`);
+    }
+    checkTimestamp(context, value.createdAt, "$.createdAt");
+    checkTimestamp(context, value.updatedAt, "$.updatedAt");
+    if (checkArray(context, value.surfaces, "$.surfaces")) {
+      invalidSurfaces = checkList(context, value.surfaces, "$.surfaces", checkSurface);
+    }
+    if (value.groups !== undefined && checkArray(context, value.groups, "$.groups")) {
+      invalidGroups = checkList(context, value.groups, "$.groups", checkGroup);
+      for (const index of checkGroupHierarchy(context, value.groups)) {
+        if (!invalidGroups.includes(index)) invalidGroups.push(index);
+      }
+    }
+    if (Array.isArray(value.surfaces)) {
+      const groupIds = Array.isArray(value.groups) ? value.groups.map((group) => isObject(group) && group.id) : [];
+      value.surfaces.forEach((surface, index) => {
+        const groupId = isObject(surface) ? surface.groupId : undefined;
+        if (typeof groupId !== "string" || groupId.length === 0 || groupIds.includes(groupId)) return;
+        report(context, `$.surfaces[${index}].groupId`, `Unknown group "${groupId}".`);
+        if (!invalidSurfaces.includes(index)) invalidSurfaces.push(index);
+      });
+    }
+    if (checkArray(context, value.scenes, "$.scenes")) {
+      if (value.scenes.length === 0) report(context, "$.scenes", "Expected at least one scene.");
+      invalidScenes = checkList(context, value.scenes, "$.scenes", checkScene);
+      if (Array.isArray(value.surfaces)) checkSceneMembership(context, value.scenes, value.surfaces);
+      const sceneIds = value.scenes.map((scene) => isObject(scene) && scene.id);
+      if (value.activeSceneId !== undefined && !sceneIds.includes(value.activeSceneId)) {
+        report(context, "$.activeSceneId", "Expected the id of a scene.");
+      }
+    }
+    if (value.cues !== undefined && checkArray(context, value.cues, "$.cues")) {
+      invalidCues = checkList(context, value.cues, "$.cues", checkCue);
+      const sceneIds = Array.isArray(value.scenes) ? value.scenes.map((scene) => isObject(scene) && scene.id) : [];
+      const numbers = new Set<unknown>();
+      value.cues.forEach((cue, index) => {
+        if (!isObject(cue)) return;
+        const before = context.issues.length;
+        if (typeof cue.sceneId === "string" && !sceneIds.includes(cue.sceneId)) {
+          report(context, `$.cues[${index}].sceneId`, `Unknown scene "${cue.sceneId}".`);
+        }
+        if (typeof cue.number === "number" && numbers.has(cue.number)) {
+          report(context, `$.cues[${index}].number`, `Duplicate cue number ${cue.number}.`);
+        }
+        numbers.add(cue.number);
+        if (context.issues.length > before && !invalidCues.includes(index)) invalidCues.push(index);
+      });
+    }
+    if (value.outputs !== undefined && checkArray(context, value.outputs, "$.outputs")) {
+      invalidOutputs = checkList(context, value.outputs, "$.outputs", checkOutput);
+    }
+    if (value.assets !== undefined && checkArray(context, value.assets, "$.assets")) {
+      invalidAssets = checkList(context, value.assets, "$.assets", checkAsset);
+    }
+    if (Array.isArray(value.surfaces)) {
+      const assetIds = new Set(Array.isArray(value.assets) ? value.assets.map((asset) => isObject(asset) && asset.id) : []);
+      value.surfaces.forEach((surface, index) => {
+        const assetId = isObject(surface) && isObject(surface.content) ? surface.content.assetId : undefined;
+        if (typeof assetId !== "string" || assetId.length === 0 || assetIds.has(assetId)) return;
+        report(context, `$.surfaces[${index}].content.assetId`, `Unknown asset "${assetId}".`);
+        if (!invalidSurfaces.includes(index)) invalidSurfaces.push(index);
+      });
+    }
+  }
+
+  return {
+    ok: context.issues.length === 0,
+    issues: context.issues,
+    invalidSurfaces,
+    invalidOutputs,
+    invalidAssets,
+    invalidScenes,
+    invalidCues,
+    invalidGroups
+  };
+}
@@ -0,0 +1,127 @@
+import type { CubicSegment, Point2D, Quad } from "./math/types";
+
+export type Easing = "linear" | "ease-in" | "ease-out" | "ease-in-out" | "step";
+
+export type KeyframeMask = {
+  id: string;
+  polygon: Point2D[];
+  curves?: (CubicSegment | null)[];
+};
+
+// Every property is optional and forms its own track; easing shapes the
+// segment from this keyframe to the next one.
+export type Keyframe = {
+  time: number;
+  easing?: Easing;
+  quad?: Quad;
+  // Polyline points of line surfaces.
+  maskPoints?: Point2D[];
+  masks?: KeyframeMask[];
+  opacity?: number;
+  scaleX?: number;
+  scaleY?: number;
+  rotation?: number;
+};
+
+export type KeyframeSample = Omit<Keyframe, "time" | "easing">;
+
+type TrackKey = keyof KeyframeSample;
+
+const TRACKS: TrackKey[] = ["quad", "maskPoints", "masks", "opacity", "scaleX", "scaleY", "rotation"];
+
+export function applyEasing(easing: Easing, t: number): number {
+  const x = Math.min(Math.max(t, 0), 1);
+  switch (easing) {
+    case "ease-in":
+      return x * x * x;
+    case "ease-out":
+      return 1 - (1 - x) ** 3;
+    case "ease-in-out":
+      return x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2;
+    case "step":
+      return x >= 1 ? 1 : 0;
+    case "linear":
+    default:
+      return x;
+  }
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpPoint(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+}
+
+// Point lists only morph when their counts match; otherwise the earlier one holds.
+function lerpPoints<T extends Point2D[]>(a: T, b: T, t: number): T {
+  if (a.length !== b.length) return a;
+  return a.map((point, index) => lerpPoint(point, b[index], t)) as T;
+}
+
+function lerpCurves(
+  a: (CubicSegment | null)[] | undefined,
+  b: (CubicSegment | null)[] | undefined,
+  t: number
+): (CubicSegment | null)[] | undefined {
+  if (!a || !b || a.length !== b.length) return a;
+  return a.map((segment, index) => {
+    const other = b[index];
+    if (!segment || !other) return segment;
+    return { c1: lerpPoint(segment.c1, other.c1, t), c2: lerpPoint(segment.c2, other.c2, t) };
+  });
+}
+
+function lerpMasks(a: KeyframeMask[], b: KeyframeMask[], t: number): KeyframeMask[] {
+  if (a === b) return a;
+  return a.map((mask) => {
+    const other = b.find((item) => item.id === mask.id);
+    if (!other || other.polygon.length !== mask.polygon.length) return mask;
+    return {
+      id: mask.id,
+      polygon: lerpPoints(mask.polygon, other.polygon, t),
+      curves: lerpCurves(mask.curves, other.curves, t)
+    };
+  });
+}
+
+function interpolate<K extends TrackKey>(key: K, a: KeyframeSample[K], b: KeyframeSample[K], t: number): KeyframeSample[K] {
+  if (typeof a === "number" && typeof b === "number") return lerp(a, b, t) as KeyframeSample[K];
+  if (key === "masks") return lerpMasks(a as KeyframeMask[], b as KeyframeMask[], t) as KeyframeSample[K];
+  return lerpPoints(a as Point2D[], b as Point2D[], t) as KeyframeSample[K];
+}
+
+export function sortKeyframes<T extends Keyframe>(keyframes: T[]): T[] {
+  return [...keyframes].sort((left, right) => left.time - right.time);
+}
+
+// Values of all animated properties at `time`; properties without keyframes are absent.
+// Before the first and after the last keyframe a track holds its end value.
+export function sampleKeyframes(keyframes: Keyframe[], time: number): KeyframeSample {
+  const ordered = sortKeyframes(keyframes);
+  const sample: Record<string, unknown> = {};
+
+  for (const key of TRACKS) {
+    const track = ordered.filter((keyframe) => keyframe[key] !== undefined);
+    if (track.length === 0) continue;
+
+    const nextIndex = track.findIndex((keyframe) => keyframe.time > time);
+    if (nextIndex === 0) {
+      sample[key] = track[0][key];
+      continue;
+    }
+    if (nextIndex === -1) {
+      sample[key] = track[track.length - 1][key];
+      continue;
+    }
+
+    const from = track[nextIndex - 1];
+    const to = track[nextIndex];
+    const span = to.time - from.time;
+    const t = applyEasing(from.easing ?? "linear", span > 0 ? (time - from.time) / span : 1);
+    sample[key] = interpolate(key, from[key], to[key], t);
+  }
+
+  return sample as KeyframeSample;
+}
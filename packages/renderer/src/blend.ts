@@ -0,0 +1,62 @@
+export type BlendMode = "normal" | "add" | "screen" | "multiply" | "overlay" | "difference";
+
+export const BLEND_MODES: BlendMode[] = ["normal", "add", "screen", "multiply", "overlay", "difference"];
+
+const CSS_BLEND_MODE: Record<BlendMode, string> = {
+  normal: "normal",
+  add: "plus-lighter",
+  screen: "screen",
+  multiply: "multiply",
+  overlay: "overlay",
+  difference: "difference"
+};
+
+export function blendModeToCss(mode: BlendMode): string {
+  return CSS_BLEND_MODE[mode] ?? "normal";
+}
+
+// Separable blend functions from the W3C compositing spec, on straight color.
+export function blendChannel(mode: BlendMode, backdrop: number, source: number): number {
+  switch (mode) {
+    case "add":
+      return Math.min(backdrop + source, 1);
+    case "screen":
+      return backdrop + source - backdrop * source;
+    case "multiply":
+      return backdrop * source;
+    case "overlay":
+      return backdrop <= 0.5
+        ? 2 * backdrop * source
+        : source + (2 * backdrop - 1) - source * (2 * backdrop - 1);
+    case "difference":
+      return Math.abs(backdrop - source);
+    case "normal":
+    default:
+      return source;
+  }
+}
+
+// Premultiplied source over premultiplied backdrop; writes the result into `out`.
+// "add" is plus-lighter, the other modes mix the blended color with source-over.
+export function blendPremultiplied(
+  mode: BlendMode,
+  source: ArrayLike<number>,
+  backdrop: ArrayLike<number>,
+  out: Float32Array | number[]
+): void {
+  const as = source[3];
+  const ab = backdrop[3];
+
+  if (mode === "add") {
+    for (let c = 0; c < 4; c += 1) out[c] = Math.min(source[c] + backdrop[c], 1);
+    return;
+  }
+
+  for (let c = 0; c < 3; c += 1) {
+    const cs = as > 0 ? source[c] / as : 0;
+    const cb = ab > 0 ? backdrop[c] / ab : 0;
+    const mixed = (1 - ab) * cs + ab * blendChannel(mode, cb, cs);
+    out[c] = as * mixed + (1 - as) * backdrop[c];
+  }
+  out[3] = as + ab * (1 - as);
+}
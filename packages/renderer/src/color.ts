@@ -0,0 +1,188 @@
+import type { Matrix3x3 } from "./math/types";
+
+export type RGB = [number, number, number];
+
+// Entries are RGB triplets with red changing fastest, as in the .cube format.
+export type ColorLut = {
+  title?: string;
+  size: number;
+  domainMin: RGB;
+  domainMax: RGB;
+  data: number[];
+};
+
+// Brightness, contrast, saturation and gamma are factors (1 = unchanged); hue is in degrees.
+export type ColorCorrection = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  gamma: number;
+  hue: number;
+  lut?: ColorLut;
+};
+
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 256;
+const EPSILON = 1e-6;
+
+export function createColorCorrection(): ColorCorrection {
+  return { brightness: 1, contrast: 1, saturation: 1, gamma: 1, hue: 0 };
+}
+
+export function isNeutralColorCorrection(correction: ColorCorrection): boolean {
+  return (
+    !correction.lut &&
+    Math.abs(correction.brightness - 1) < EPSILON &&
+    Math.abs(correction.contrast - 1) < EPSILON &&
+    Math.abs(correction.saturation - 1) < EPSILON &&
+    Math.abs(correction.gamma - 1) < EPSILON &&
+    Math.abs(correction.hue % 360) < EPSILON
+  );
+}
+
+// Matrices follow the Filter Effects spec so the CSS filter chain and the
+// WebGL/raster paths agree.
+export function saturationMatrix(saturation: number): Matrix3x3 {
+  const s = saturation;
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s
+  ];
+}
+
+export function hueRotationMatrix(degrees: number): Matrix3x3 {
+  const angle = (degrees * Math.PI) / 180;
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return [
+    0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928,
+    0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.14, 0.072 - c * 0.072 - s * 0.283,
+    0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072
+  ];
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function multiply(m: Matrix3x3, c: RGB): RGB {
+  return [
+    clamp01(m[0] * c[0] + m[1] * c[1] + m[2] * c[2]),
+    clamp01(m[3] * c[0] + m[4] * c[1] + m[5] * c[2]),
+    clamp01(m[6] * c[0] + m[7] * c[1] + m[8] * c[2])
+  ];
+}
+
+function lutEntry(lut: ColorLut, r: number, g: number, b: number): RGB {
+  const index = ((b * lut.size + g) * lut.size + r) * 3;
+  return [lut.data[index], lut.data[index + 1], lut.data[index + 2]];
+}
+
+export function sampleLut(lut: ColorLut, color: RGB): RGB {
+  const n = lut.size;
+  const scaled = color.map((channel, index) => {
+    const range = lut.domainMax[index] - lut.domainMin[index] || 1;
+    return clamp01((channel - lut.domainMin[index]) / range) * (n - 1);
+  });
+  const lower = scaled.map((value) => Math.min(Math.floor(value), n - 2));
+  const f = scaled.map((value, index) => value - lower[index]);
+  const out: RGB = [0, 0, 0];
+
+  for (let corner = 0; corner < 8; corner += 1) {
+    const dr = corner & 1;
+    const dg = (corner >> 1) & 1;
+    const db = (corner >> 2) & 1;
+    const weight =
+      (dr ? f[0] : 1 - f[0]) *
+      (dg ? f[1] : 1 - f[1]) *
+      (db ? f[2] : 1 - f[2]);
+    if (weight === 0) continue;
+    const entry = lutEntry(lut, lower[0] + dr, lower[1] + dg, lower[2] + db);
+    out[0] += entry[0] * weight;
+    out[1] += entry[1] * weight;
+    out[2] += entry[2] * weight;
+  }
+  return [clamp01(out[0]), clamp01(out[1]), clamp01(out[2])];
+}
+
+// Straight (not premultiplied) color in 0..1. Steps clamp like chained CSS filters:
+// brightness, contrast, saturation, hue, gamma, then the LUT.
+export function applyColorCorrection(color: RGB, correction: ColorCorrection): RGB {
+  let c: RGB = color.map((channel) => clamp01(channel * correction.brightness)) as RGB;
+  c = c.map((channel) => clamp01((channel - 0.5) * correction.contrast + 0.5)) as RGB;
+  c = multiply(saturationMatrix(correction.saturation), c);
+  c = multiply(hueRotationMatrix(correction.hue), c);
+  const exponent = 1 / Math.max(correction.gamma, EPSILON);
+  c = c.map((channel) => Math.pow(channel, exponent)) as RGB;
+  return correction.lut ? sampleLut(correction.lut, c) : c;
+}
+
+// Gamma has no CSS filter function; pass the id of an SVG gamma filter to include it.
+// LUTs cannot be expressed in CSS at all.
+export function colorCorrectionToCssFilter(correction: ColorCorrection, gammaFilterId?: string): string {
+  const parts: string[] = [];
+  if (Math.abs(correction.brightness - 1) >= EPSILON) parts.push(`brightness(${correction.brightness})`);
+  if (Math.abs(correction.contrast - 1) >= EPSILON) parts.push(`contrast(${correction.contrast})`);
+  if (Math.abs(correction.saturation - 1) >= EPSILON) parts.push(`saturate(${correction.saturation})`);
+  if (Math.abs(correction.hue % 360) >= EPSILON) parts.push(`hue-rotate(${correction.hue}deg)`);
+  if (gammaFilterId && Math.abs(correction.gamma - 1) >= EPSILON) parts.push(`url(#${gammaFilterId})`);
+  return parts.join(" ");
+}
+
+function parseTriplet(tokens: string[], line: number): RGB {
+  const values = tokens.map(Number);
+  if (values.length !== 3 || values.some((value) => !Number.isFinite(value))) {
+    throw new Error(`Invalid .cube file: expected three numbers on line ${line}.`);
+  }
+  return values as RGB;
+}
+
+export function parseCubeLut(text: string): ColorLut {
+  let title: string | undefined;
+  let size = 0;
+  let domainMin: RGB = [0, 0, 0];
+  let domainMax: RGB = [1, 1, 1];
+  const data: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*$/, "").trim();
+    if (!content) return;
+    const [keyword, ...rest] = content.split(/\s+/);
+
+    switch (keyword) {
+      case "TITLE":
+        title = content.slice(keyword.length).trim().replace(/^"(.*)"$/, "$1");
+        return;
+      case "LUT_1D_SIZE":
+        throw new Error("Invalid .cube file: 1D LUTs are not supported.");
+      case "LUT_3D_SIZE":
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+          throw new Error(`Invalid .cube file: LUT_3D_SIZE must be between ${MIN_LUT_SIZE} and ${MAX_LUT_SIZE}.`);
+        }
+        return;
+      case "DOMAIN_MIN":
+        domainMin = parseTriplet(rest, line);
+        return;
+      case "DOMAIN_MAX":
+        domainMax = parseTriplet(rest, line);
+        return;
+      default:
+        if (/^[A-Z_]+$/.test(keyword)) return;
+        data.push(...parseTriplet([keyword, ...rest], line));
+    }
+  });
+
+  if (size === 0) {
+    throw new Error("Invalid .cube file: LUT_3D_SIZE is missing.");
+  }
+  if (data.length !== size * size * size * 3) {
+    throw new Error(`Invalid .cube file: expected ${size ** 3} entries, found ${data.length / 3}.`);
+  }
+  if (domainMin.some((value, index) => value >= domainMax[index])) {
+    throw new Error("Invalid .cube file: DOMAIN_MIN must be below DOMAIN_MAX.");
+  }
+  return { title, size, domainMin, domainMax, data };
+}
@@ -0,0 +1,119 @@
+import type { Matrix3x3, Point2D, Quad } from "./math/types";
+import { computeHomographyRectToQuad, invertHomography } from "./math/homography";
+import type { Rect } from "./edgeblend";
+
+// Keystone corners are normalised to the output region (0..1), clockwise from top-left.
+export type OutputCorrection = {
+  k1: number;
+  k2: number;
+  keystone: Quad;
+};
+
+export type CorrectedOutput = {
+  region: Rect;
+  correction: OutputCorrection;
+};
+
+export const IDENTITY_KEYSTONE: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 }
+];
+
+const EPSILON = 1e-6;
+
+export function createOutputCorrection(): OutputCorrection {
+  return { k1: 0, k2: 0, keystone: IDENTITY_KEYSTONE.map((p) => ({ ...p })) as Quad };
+}
+
+export function isIdentityCorrection(correction: OutputCorrection): boolean {
+  return (
+    Math.abs(correction.k1) < EPSILON &&
+    Math.abs(correction.k2) < EPSILON &&
+    correction.keystone.every((p, index) => (
+      Math.abs(p.x - IDENTITY_KEYSTONE[index].x) < EPSILON &&
+      Math.abs(p.y - IDENTITY_KEYSTONE[index].y) < EPSILON
+    ))
+  );
+}
+
+// Maps a normalised destination point back to the unit square; throws for degenerate keystones.
+export function computeKeystoneInverse(correction: OutputCorrection): Matrix3x3 {
+  return invertHomography(computeHomographyRectToQuad(1, 1, correction.keystone));
+}
+
+// Radius is measured in pixels relative to the half diagonal so the distortion
+// stays circular on non-square outputs.
+export function distortRadial(
+  correction: OutputCorrection,
+  width: number,
+  height: number,
+  point: Point2D
+): Point2D {
+  const halfDiagonal = Math.hypot(width, height) / 2 || 1;
+  const qx = ((point.x - 0.5) * width) / halfDiagonal;
+  const qy = ((point.y - 0.5) * height) / halfDiagonal;
+  const r2 = qx * qx + qy * qy;
+  const factor = 1 + correction.k1 * r2 + correction.k2 * r2 * r2;
+  return {
+    x: (qx * factor * halfDiagonal) / width + 0.5,
+    y: (qy * factor * halfDiagonal) / height + 0.5
+  };
+}
+
+// For a destination pixel inside the output region, returns the normalised
+// position in the composited frame to sample, or null outside the corrected image.
+// Negative k1 counters barrel distortion of the projection lens.
+export function mapCorrectedPoint(
+  correction: OutputCorrection,
+  width: number,
+  height: number,
+  point: Point2D,
+  inverse: Matrix3x3 = computeKeystoneInverse(correction)
+): Point2D | null {
+  const w = inverse[6] * point.x + inverse[7] * point.y + inverse[8];
+  if (w <= 0) return null;
+  const undone = {
+    x: (inverse[0] * point.x + inverse[1] * point.y + inverse[2]) / w,
+    y: (inverse[3] * point.x + inverse[4] * point.y + inverse[5]) / w
+  };
+  const source = distortRadial(correction, width, height, undone);
+  if (source.x < 0 || source.y < 0 || source.x > 1 || source.y > 1) return null;
+  return source;
+}
+
+// Points of a calibration grid after correction, in stage pixels, for previews and overlays.
+export function createCalibrationGrid(
+  correction: OutputCorrection,
+  region: Rect,
+  columns = 8,
+  rows = 6,
+  steps = 16
+): Point2D[][] {
+  const H = computeHomographyRectToQuad(1, 1, correction.keystone);
+  // Forward radial distortion has no closed form inverse; a few fixed-point steps suffice.
+  const place = (u: number, v: number): Point2D => {
+    let guess = { x: u, y: v };
+    for (let i = 0; i < 8; i += 1) {
+      const mapped = distortRadial(correction, region.width, region.height, guess);
+      guess = { x: guess.x + (u - mapped.x), y: guess.y + (v - mapped.y) };
+    }
+    const w = H[6] * guess.x + H[7] * guess.y + H[8];
+    return {
+      x: region.x + ((H[0] * guess.x + H[1] * guess.y + H[2]) / w) * region.width,
+      y: region.y + ((H[3] * guess.x + H[4] * guess.y + H[5]) / w) * region.height
+    };
+  };
+
+  const lines: Point2D[][] = [];
+  for (let column = 0; column <= columns; column += 1) {
+    const u = column / columns;
+    lines.push(Array.from({ length: steps + 1 }, (_, index) => place(u, index / steps)));
+  }
+  for (let row = 0; row <= rows; row += 1) {
+    const v = row / rows;
+    lines.push(Array.from({ length: steps + 1 }, (_, index) => place(index / steps, v)));
+  }
+  return lines;
+}
@@ -0,0 +1,97 @@
+export type EdgeBlendCurve = "linear" | "smoothstep" | "cosine";
+export type EdgeBlendSide = "left" | "right" | "top" | "bottom";
+
+export type EdgeBlend = {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  gamma: number;
+  curve: EdgeBlendCurve;
+};
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type EdgeBlendZone = {
+  side: EdgeBlendSide;
+  rect: Rect;
+  gradient: string;
+};
+
+const DEFAULT_STOPS = 16;
+
+const GRADIENT_DIRECTION: Record<EdgeBlendSide, string> = {
+  left: "to right",
+  right: "to left",
+  top: "to bottom",
+  bottom: "to top"
+};
+
+function applyCurve(t: number, curve: EdgeBlendCurve): number {
+  switch (curve) {
+    case "smoothstep":
+      return t * t * (3 - 2 * t);
+    case "cosine":
+      return 0.5 - 0.5 * Math.cos(Math.PI * t);
+    case "linear":
+    default:
+      return t;
+  }
+}
+
+export function edgeBlendFactor(t: number, curve: EdgeBlendCurve, gamma: number): number {
+  // Curves satisfy f(t) + f(1 - t) = 1 in light output; the signal is
+  // gamma-encoded so the overlapping projectors sum to uniform brightness.
+  const light = applyCurve(Math.min(Math.max(t, 0), 1), curve);
+  const safeGamma = gamma > 0 ? gamma : 1;
+  return Math.pow(light, 1 / safeGamma);
+}
+
+export function computeEdgeBlendStops(
+  curve: EdgeBlendCurve,
+  gamma: number,
+  steps: number = DEFAULT_STOPS
+): { offset: number; alpha: number }[] {
+  const count = Math.max(2, Math.floor(steps));
+  return Array.from({ length: count }, (_, index) => {
+    const offset = index / (count - 1);
+    return { offset, alpha: 1 - edgeBlendFactor(offset, curve, gamma) };
+  });
+}
+
+export function edgeBlendToCssGradient(
+  side: EdgeBlendSide,
+  curve: EdgeBlendCurve,
+  gamma: number,
+  steps: number = DEFAULT_STOPS
+): string {
+  const stops = computeEdgeBlendStops(curve, gamma, steps)
+    .map(({ offset, alpha }) => `rgba(0, 0, 0, ${alpha.toFixed(4)}) ${(offset * 100).toFixed(2)}%`)
+    .join(", ");
+  return `linear-gradient(${GRADIENT_DIRECTION[side]}, ${stops})`;
+}
+
+export function computeEdgeBlendZones(region: Rect, blend: EdgeBlend): EdgeBlendZone[] {
+  const zones: EdgeBlendZone[] = [];
+  const push = (side: EdgeBlendSide, rect: Rect) => {
+    if (rect.width <= 0 || rect.height <= 0) return;
+    zones.push({ side, rect, gradient: edgeBlendToCssGradient(side, blend.curve, blend.gamma) });
+  };
+
+  const left = Math.min(Math.max(blend.left, 0), region.width);
+  const right = Math.min(Math.max(blend.right, 0), region.width);
+  const top = Math.min(Math.max(blend.top, 0), region.height);
+  const bottom = Math.min(Math.max(blend.bottom, 0), region.height);
+
+  push("left", { x: region.x, y: region.y, width: left, height: region.height });
+  push("right", { x: region.x + region.width - right, y: region.y, width: right, height: region.height });
+  push("top", { x: region.x, y: region.y, width: region.width, height: top });
+  push("bottom", { x: region.x, y: region.y + region.height - bottom, width: region.width, height: bottom });
+
+  return zones;
+}
@@ -0,0 +1,61 @@
+import type { Matrix3x3, Quad } from "./math/types";
+import { computeHomographyQuadToQuad, multiplyHomography } from "./math/homography";
+
+export type GroupNode = {
+  id: string;
+  parentId?: string;
+  visible: boolean;
+  locked?: boolean;
+  opacity: number;
+  transform?: { source: Quad; target: Quad };
+};
+
+// A group's state with all ancestors applied.
+export type ResolvedGroup = {
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  // Maps member coordinates to stage space; null when no ancestor transforms.
+  homography: Matrix3x3 | null;
+  // Maps coordinates of the group's own transform (its parent's space) to stage space.
+  parentHomography: Matrix3x3 | null;
+};
+
+function getOwnHomography(group: GroupNode): Matrix3x3 | null {
+  if (!group.transform) return null;
+  try {
+    return computeHomographyQuadToQuad(group.transform.source, group.transform.target);
+  } catch {
+    // Degenerate transforms are ignored rather than collapsing the members.
+    return null;
+  }
+}
+
+// Resolves every group along its parent chain: a member is mapped by its own
+// group first, then by each ancestor. Unknown parents and cycles end the chain.
+export function resolveGroups(groups: GroupNode[]): Map<string, ResolvedGroup> {
+  const byId = new Map(groups.map((group) => [group.id, group]));
+  const resolved = new Map<string, ResolvedGroup>();
+
+  const resolve = (group: GroupNode, path: Set<string>): ResolvedGroup => {
+    const cached = resolved.get(group.id);
+    if (cached) return cached;
+    const parentGroup = group.parentId !== undefined ? byId.get(group.parentId) : undefined;
+    path.add(group.id);
+    const parent = parentGroup && !path.has(parentGroup.id) ? resolve(parentGroup, path) : null;
+    const own = getOwnHomography(group);
+    const parentHomography = parent?.homography ?? null;
+    const result: ResolvedGroup = {
+      visible: group.visible && (parent?.visible ?? true),
+      locked: (group.locked ?? false) || (parent?.locked ?? false),
+      opacity: group.opacity * (parent?.opacity ?? 1),
+      homography: own && parentHomography ? multiplyHomography(parentHomography, own) : own ?? parentHomography,
+      parentHomography
+    };
+    resolved.set(group.id, result);
+    return result;
+  };
+
+  groups.forEach((group) => resolve(group, new Set()));
+  return resolved;
+}
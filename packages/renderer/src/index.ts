@@ -1,2 +1,12 @@
 export * from "./math";
 export * from "./layout";
+export * from "./edgeblend";
+export * from "./snap";
+export * from "./correction";
+export * from "./color";
+export * from "./blend";
+export * from "./pick";
+export * from "./animation";
+export * from "./webgl";
+export * from "./raster";
+export * from "./group";
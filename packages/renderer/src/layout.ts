@@ -1,4 +1,4 @@
-import type { Point2D, Quad } from "./math/types";
+import type { MeshWarp, Point2D, Quad } from "./math/types";
 
 export type FullscreenFit = "stretch" | "contain" | "cover";
 export type FullscreenAlign =
@@ -38,6 +38,55 @@ export function scaleQuad(
   })) as Quad;
 }
 
+export function scaleMesh(
+  mesh: MeshWarp,
+  scaleX: number,
+  scaleY: number,
+  origin: Point2D
+): MeshWarp {
+  return {
+    ...mesh,
+    points: mesh.points.map((point) => ({
+      x: origin.x + (point.x - origin.x) * scaleX,
+      y: origin.y + (point.y - origin.y) * scaleY
+    })),
+    tangents: mesh.tangents?.map((tangent) => ({
+      u: { x: tangent.u.x * scaleX, y: tangent.u.y * scaleY },
+      v: { x: tangent.v.x * scaleX, y: tangent.v.y * scaleY }
+    }))
+  };
+}
+
+// Degrees, clockwise on screen (y points down).
+export function rotatePoint(point: Point2D, degrees: number, origin: Point2D): Point2D {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return {
+    x: origin.x + dx * cos - dy * sin,
+    y: origin.y + dx * sin + dy * cos
+  };
+}
+
+export function rotateQuad(quad: Quad, degrees: number, origin?: Point2D): Quad {
+  const center = origin ?? getQuadCenter(quad);
+  return quad.map((point) => rotatePoint(point, degrees, center)) as Quad;
+}
+
+export function rotateMesh(mesh: MeshWarp, degrees: number, origin: Point2D): MeshWarp {
+  const zero = { x: 0, y: 0 };
+  return {
+    ...mesh,
+    points: mesh.points.map((point) => rotatePoint(point, degrees, origin)),
+    tangents: mesh.tangents?.map((tangent) => ({
+      u: rotatePoint(tangent.u, degrees, zero),
+      v: rotatePoint(tangent.v, degrees, zero)
+    }))
+  };
+}
+
 export function computeFullscreenQuad(
   stageWidth: number,
   stageHeight: number,
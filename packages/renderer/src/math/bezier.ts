@@ -0,0 +1,124 @@
+import type { CubicSegment, MaskShape, Point2D } from "./types";
+import { polygonArea } from "./validate";
+
+const DEFAULT_TOLERANCE = 0.25;
+const MAX_DEPTH = 12;
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function distanceToLine(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / length;
+}
+
+export function evaluateCubic(p0: Point2D, segment: CubicSegment, p3: Point2D, t: number): Point2D {
+  const it = 1 - t;
+  const a = it * it * it;
+  const b = 3 * t * it * it;
+  const c = 3 * t * t * it;
+  const d = t * t * t;
+  return {
+    x: p0.x * a + segment.c1.x * b + segment.c2.x * c + p3.x * d,
+    y: p0.y * a + segment.c1.y * b + segment.c2.y * c + p3.y * d
+  };
+}
+
+// De Casteljau split; the point between both halves is returned separately.
+export function splitCubic(
+  p0: Point2D,
+  segment: CubicSegment,
+  p3: Point2D,
+  t = 0.5
+): { first: CubicSegment; point: Point2D; second: CubicSegment } {
+  const p01 = lerp(p0, segment.c1, t);
+  const p12 = lerp(segment.c1, segment.c2, t);
+  const p23 = lerp(segment.c2, p3, t);
+  const p012 = lerp(p01, p12, t);
+  const p123 = lerp(p12, p23, t);
+  const point = lerp(p012, p123, t);
+  return { first: { c1: p01, c2: p012 }, point, second: { c1: p123, c2: p23 } };
+}
+
+// Appends the curve without its start point, subdividing until the control
+// points lie within `tolerance` of the chord.
+export function flattenCubic(
+  p0: Point2D,
+  segment: CubicSegment,
+  p3: Point2D,
+  tolerance: number = DEFAULT_TOLERANCE,
+  out: Point2D[] = [],
+  depth = 0
+): Point2D[] {
+  const flat = Math.max(distanceToLine(segment.c1, p0, p3), distanceToLine(segment.c2, p0, p3)) <= tolerance;
+  if (flat || depth >= MAX_DEPTH) {
+    out.push({ x: p3.x, y: p3.y });
+    return out;
+  }
+  const { first, point, second } = splitCubic(p0, segment, p3);
+  flattenCubic(p0, first, point, tolerance, out, depth + 1);
+  flattenCubic(point, second, p3, tolerance, out, depth + 1);
+  return out;
+}
+
+export function flattenMaskShape(mask: MaskShape, tolerance: number = DEFAULT_TOLERANCE): MaskShape {
+  if (!mask.curves || mask.curves.every((curve) => !curve)) {
+    return { ...mask, curves: undefined };
+  }
+
+  const polygon: Point2D[] = [];
+  const edgeFeather: number[] = [];
+  const count = mask.polygon.length;
+  for (let i = 0; i < count; i += 1) {
+    const start = mask.polygon[i];
+    const end = mask.polygon[(i + 1) % count];
+    const curve = mask.curves[i];
+    const points = curve ? flattenCubic(start, curve, end, tolerance) : [{ x: end.x, y: end.y }];
+    const feather = mask.edgeFeather?.[i] ?? mask.feather ?? 0;
+    polygon.push(start);
+    points.slice(0, -1).forEach((point) => polygon.push(point));
+    for (let k = 0; k < points.length; k += 1) edgeFeather.push(feather);
+  }
+
+  return {
+    ...mask,
+    polygon,
+    curves: undefined,
+    edgeFeather: mask.edgeFeather ? edgeFeather : undefined
+  };
+}
+
+type OrientableShape = {
+  polygon: Point2D[];
+  curves?: (CubicSegment | null)[];
+  feather?: number;
+  edgeFeather?: number[];
+};
+
+// Walks the outline the other way round, carrying curves and per-edge
+// feathers along; the first point stays first.
+export function reverseMaskShape<T extends OrientableShape>(mask: T): T {
+  const count = mask.polygon.length;
+  // Edge k of the reversed outline is edge count - 1 - k, walked backwards.
+  const source = (k: number) => count - 1 - k;
+  return {
+    ...mask,
+    polygon: mask.polygon.map((_, k) => mask.polygon[(count - k) % count]),
+    curves: mask.curves && mask.polygon.map((_, k) => {
+      const curve = mask.curves?.[source(k)];
+      return curve ? { c1: curve.c2, c2: curve.c1 } : null;
+    }),
+    edgeFeather: mask.edgeFeather && mask.polygon.map((_, k) => mask.edgeFeather?.[source(k)] ?? mask.feather ?? 0)
+  };
+}
+
+// Masks are expected clockwise; a counter-clockwise outline, as drawn the
+// other way round or mirrored by a transform, is reversed.
+export function orientMaskShape<T extends OrientableShape>(mask: T): T {
+  const outline = flattenMaskShape({ mode: "include", polygon: mask.polygon, curves: mask.curves }).polygon;
+  return polygonArea(outline) < 0 ? reverseMaskShape(mask) : mask;
+}
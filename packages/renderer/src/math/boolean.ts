@@ -0,0 +1,147 @@
+import { flattenMaskShape } from "./bezier";
+import type { MaskMode, MaskShape, Point2D } from "./types";
+
+type Edge = { id: number; a: Point2D; b: Point2D; operand: number };
+type Bound = { edge: Edge; x: number };
+type Piece = { left: Edge; right: Edge; top: number; bottom: number };
+
+const EPSILON = 1e-9;
+
+function xAt(edge: Edge, y: number): number {
+  return edge.a.x + ((edge.b.x - edge.a.x) * (y - edge.a.y)) / (edge.b.y - edge.a.y);
+}
+
+function collectEdges(operands: Point2D[][][]): Edge[] {
+  const edges: Edge[] = [];
+  operands.forEach((polygons, operand) => {
+    for (const polygon of polygons) {
+      for (let i = 0; i < polygon.length; i += 1) {
+        const p = polygon[i];
+        const q = polygon[(i + 1) % polygon.length];
+        if (Math.abs(p.y - q.y) <= EPSILON) continue;
+        const [a, b] = p.y < q.y ? [p, q] : [q, p];
+        edges.push({ id: edges.length, a, b, operand });
+      }
+    }
+  });
+  return edges;
+}
+
+function collectSlabBoundaries(edges: Edge[]): number[] {
+  const ys: number[] = [];
+  edges.forEach((edge) => ys.push(edge.a.y, edge.b.y));
+
+  // Edges never cross inside a slab, so every crossing starts a new one.
+  for (let i = 0; i < edges.length; i += 1) {
+    for (let j = i + 1; j < edges.length; j += 1) {
+      const e = edges[i];
+      const f = edges[j];
+      const rx = e.b.x - e.a.x;
+      const ry = e.b.y - e.a.y;
+      const sx = f.b.x - f.a.x;
+      const sy = f.b.y - f.a.y;
+      const denom = rx * sy - ry * sx;
+      if (Math.abs(denom) <= EPSILON) continue;
+      const t = ((f.a.x - e.a.x) * sy - (f.a.y - e.a.y) * sx) / denom;
+      const u = ((f.a.x - e.a.x) * ry - (f.a.y - e.a.y) * rx) / denom;
+      if (t > 0 && t < 1 && u > 0 && u < 1) ys.push(e.a.y + t * ry);
+    }
+  }
+
+  ys.sort((left, right) => left - right);
+  return ys.filter((y, index) => index === 0 || y - ys[index - 1] > EPSILON);
+}
+
+function evaluate(modes: MaskMode[], inside: boolean[], startInside: boolean): boolean {
+  let state = startInside;
+  modes.forEach((mode, index) => {
+    state = mode === "include" ? state || inside[index] : state && !inside[index];
+  });
+  return state;
+}
+
+// Sweeps horizontal slabs and keeps the x-intervals where the combined
+// even-odd fill is set. The result is a list of disjoint trapezoids, so it
+// renders identically with either fill rule.
+function combineRegions(operands: Point2D[][][], modes: MaskMode[], base: Point2D[][] = []): Point2D[][] {
+  const allOperands = [base, ...operands];
+  const allModes: MaskMode[] = ["include", ...modes];
+  const edges = collectEdges(allOperands);
+  const ys = collectSlabBoundaries(edges);
+  const closed: Piece[] = [];
+  let open = new Map<string, Piece>();
+
+  for (let s = 0; s < ys.length - 1; s += 1) {
+    const y0 = ys[s];
+    const y1 = ys[s + 1];
+    const mid = (y0 + y1) / 2;
+    const bounds: Bound[] = edges
+      .filter((edge) => edge.a.y <= mid && edge.b.y >= mid)
+      .map((edge) => ({ edge, x: xAt(edge, mid) }))
+      .sort((left, right) => left.x - right.x);
+
+    const inside = allModes.map(() => false);
+    const next = new Map<string, Piece>();
+    let startBound: Bound | null = null;
+
+    for (const bound of bounds) {
+      inside[bound.edge.operand] = !inside[bound.edge.operand];
+      const filled = evaluate(allModes, inside, false);
+      if (filled && !startBound) {
+        startBound = bound;
+      } else if (!filled && startBound) {
+        const left = startBound.edge;
+        const right = bound.edge;
+        startBound = null;
+        if (Math.abs(xAt(left, y0) - xAt(right, y0)) <= EPSILON && Math.abs(xAt(left, y1) - xAt(right, y1)) <= EPSILON) {
+          continue;
+        }
+        const key = `${left.id}:${right.id}`;
+        const previous = open.get(key);
+        if (previous && Math.abs(previous.bottom - y0) <= EPSILON) {
+          previous.bottom = y1;
+          next.set(key, previous);
+          open.delete(key);
+        } else {
+          next.set(key, { left, right, top: y0, bottom: y1 });
+        }
+      }
+    }
+
+    open.forEach((piece) => closed.push(piece));
+    open = next;
+  }
+  open.forEach((piece) => closed.push(piece));
+
+  return closed.map((piece) => {
+    const corners = [
+      { x: xAt(piece.left, piece.top), y: piece.top },
+      { x: xAt(piece.right, piece.top), y: piece.top },
+      { x: xAt(piece.right, piece.bottom), y: piece.bottom },
+      { x: xAt(piece.left, piece.bottom), y: piece.bottom }
+    ];
+    return corners.filter((point, index) => {
+      const prev = corners[(index + 3) % 4];
+      return Math.abs(point.x - prev.x) > EPSILON || Math.abs(point.y - prev.y) > EPSILON;
+    });
+  });
+}
+
+export function unionPolygons(a: Point2D[][], b: Point2D[][]): Point2D[][] {
+  return combineRegions([a, b], ["include", "include"]);
+}
+
+export function differencePolygons(a: Point2D[][], b: Point2D[][]): Point2D[][] {
+  return combineRegions([a, b], ["include", "exclude"]);
+}
+
+// Masks are applied in list order. When the first mask excludes, it cuts
+// out of `base` (usually the full stage) instead of an empty region.
+export function combineMasks(masks: MaskShape[], base?: Point2D[]): Point2D[][] {
+  const start = masks.length > 0 && masks[0].mode === "exclude" && base ? [base] : [];
+  return combineRegions(
+    masks.map((mask) => [flattenMaskShape(mask).polygon]),
+    masks.map((mask) => mask.mode),
+    start
+  );
+}
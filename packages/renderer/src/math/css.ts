@@ -1,4 +1,4 @@
-import type { Matrix3x3, Matrix4x4 } from "./types";
+import type { Matrix3x3, Matrix4x4, MeshCell, Point2D } from "./types";
 
 export function homographyToCssMatrix3d(H: Matrix3x3): Matrix4x4 {
   // CSS matrix3d expects column-major order. We embed the 3x3 homography as:
@@ -28,3 +28,27 @@ export function homographyToCssMatrix3d(H: Matrix3x3): Matrix4x4 {
 export function cssMatrix3dToString(M: Matrix4x4): string {
   return `matrix3d(${M.join(", ")})`;
 }
+
+export function meshCellToCssClipPath(
+  cell: MeshCell,
+  width: number,
+  height: number,
+  bleed = 0.5
+): string {
+  // Cells overlap by a small bleed so anti-aliased edges do not leave seams.
+  const { x, y, width: cellWidth, height: cellHeight } = cell.source;
+  const top = Math.max(0, y - bleed);
+  const right = Math.max(0, width - (x + cellWidth) - bleed);
+  const bottom = Math.max(0, height - (y + cellHeight) - bleed);
+  const left = Math.max(0, x - bleed);
+  return `inset(${top}px ${right}px ${bottom}px ${left}px)`;
+}
+
+export function polygonsToCssClipPath(polygons: Point2D[][]): string {
+  const drawable = polygons.filter((polygon) => polygon.length >= 3);
+  if (drawable.length === 0) return "polygon(0px 0px, 0px 0px, 0px 0px)";
+  const path = drawable
+    .map((polygon) => `M${polygon.map((p) => `${p.x} ${p.y}`).join(" L")} Z`)
+    .join(" ");
+  return `path(evenodd, "${path}")`;
+}
@@ -0,0 +1,194 @@
+import type { HomographyFit, Matrix3x3, Point2D, PointCorrespondence } from "./types";
+import { applyHomography, multiplyHomography } from "./homography";
+
+// A point is an outlier when its leave-one-out error exceeds this multiple of
+// the median one, and at least MIN_OUTLIER_ERROR.
+const OUTLIER_MEDIAN_FACTOR = 4;
+const MIN_OUTLIER_ERROR = 0.5;
+const JACOBI_MAX_SWEEPS = 100;
+const JACOBI_EPSILON = 1e-15;
+
+type Normalization = {
+  points: Point2D[];
+  T: Matrix3x3;
+  inverse: Matrix3x3;
+};
+
+function normalizePoints(points: Point2D[]): Normalization {
+  const n = points.length;
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / n;
+
+  if (!(meanDistance > 0)) {
+    throw new Error("Point correspondences are degenerate.");
+  }
+
+  // Hartley normalization: centroid at the origin, mean distance sqrt(2).
+  const s = Math.SQRT2 / meanDistance;
+  return {
+    points: points.map((p) => ({ x: (p.x - cx) * s, y: (p.y - cy) * s })),
+    T: [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1],
+    inverse: [1 / s, 0, cx, 0, 1 / s, cy, 0, 0, 1]
+  };
+}
+
+function symmetricEigen(S: number[][]): { values: number[]; vectors: number[][] } {
+  const n = S.length;
+  const A = S.map((row) => [...row]);
+  const V = A.map((_, i) => A.map((__, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep += 1) {
+    let off = 0;
+    for (let p = 0; p < n; p += 1) {
+      for (let q = p + 1; q < n; q += 1) {
+        off += A[p][q] * A[p][q];
+      }
+    }
+    if (off < JACOBI_EPSILON) break;
+
+    for (let p = 0; p < n; p += 1) {
+      for (let q = p + 1; q < n; q += 1) {
+        if (Math.abs(A[p][q]) < 1e-300) continue;
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k += 1) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k += 1) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k += 1) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return {
+    values: A.map((row, i) => row[i]),
+    vectors: V
+  };
+}
+
+function solveHomography(correspondences: PointCorrespondence[]): { homography: Matrix3x3; conditionNumber: number } {
+  const source = normalizePoints(correspondences.map((c) => c.source));
+  const target = normalizePoints(correspondences.map((c) => c.target));
+
+  // Accumulate AᵀA of the 2N×9 DLT system directly.
+  const AtA = Array.from({ length: 9 }, () => new Array<number>(9).fill(0));
+  const addRow = (row: number[]) => {
+    for (let i = 0; i < 9; i += 1) {
+      if (row[i] === 0) continue;
+      for (let j = 0; j < 9; j += 1) {
+        AtA[i][j] += row[i] * row[j];
+      }
+    }
+  };
+
+  for (let i = 0; i < correspondences.length; i += 1) {
+    const s = source.points[i];
+    const t = target.points[i];
+    addRow([s.x, s.y, 1, 0, 0, 0, -t.x * s.x, -t.x * s.y, -t.x]);
+    addRow([0, 0, 0, s.x, s.y, 1, -t.y * s.x, -t.y * s.y, -t.y]);
+  }
+
+  const { values, vectors } = symmetricEigen(AtA);
+  const order = values.map((value, index) => ({ value: Math.max(value, 0), index }))
+    .sort((a, b) => a.value - b.value);
+  const smallest = order[0];
+  const secondSmallest = order[1];
+  const largest = order[order.length - 1];
+
+  const conditionNumber = Math.sqrt(largest.value / secondSmallest.value);
+  if (!Number.isFinite(conditionNumber)) {
+    throw new Error("Homography system is singular.");
+  }
+
+  const h = vectors.map((row) => row[smallest.index]);
+  const normalized: Matrix3x3 = [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], h[8]];
+  const H = multiplyHomography(multiplyHomography(target.inverse, normalized), source.T);
+
+  if (Math.abs(H[8]) < 1e-12) {
+    throw new Error("Homography w is ~0 (degenerate transform)");
+  }
+  return { homography: H.map((value) => value / H[8]) as Matrix3x3, conditionNumber };
+}
+
+function transferError(H: Matrix3x3, correspondence: PointCorrespondence): number {
+  const mapped = applyHomography(H, correspondence.source);
+  return Math.hypot(mapped.x - correspondence.target.x, mapped.y - correspondence.target.y);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Each point is measured against the fit of the other points, so a bad point
+// cannot hide by pulling the fit towards itself. The worst point is dropped
+// and the rest re-measured until none exceeds the limit, so one bad point does
+// not drag its neighbours over it too. Four points fit exactly and leave
+// nothing to compare against.
+function findOutliers(correspondences: PointCorrespondence[], fixedThreshold?: number): number[] {
+  const inliers = correspondences.map((_, index) => index);
+  const outliers: number[] = [];
+  while (inliers.length >= 5) {
+    const errors = inliers.map((index) => {
+      try {
+        const others = inliers.filter((other) => other !== index).map((other) => correspondences[other]);
+        return transferError(solveHomography(others).homography, correspondences[index]);
+      } catch {
+        // The others alone are degenerate: this point is needed, not suspect.
+        return 0;
+      }
+    });
+    const threshold = fixedThreshold ?? Math.max(OUTLIER_MEDIAN_FACTOR * median(errors), MIN_OUTLIER_ERROR);
+    const worst = errors.indexOf(Math.max(...errors));
+    if (errors[worst] <= threshold) break;
+    outliers.push(inliers[worst]);
+    inliers.splice(worst, 1);
+  }
+  return outliers.sort((a, b) => a - b);
+}
+
+// outlierThreshold sets a fixed limit in target units instead of the one
+// derived from the median leave-one-out error.
+export function fitHomography(
+  correspondences: PointCorrespondence[],
+  options: { outlierThreshold?: number } = {}
+): HomographyFit {
+  if (correspondences.length < 4) {
+    throw new Error("At least four point correspondences are required.");
+  }
+
+  const finite = (p: Point2D) => Number.isFinite(p.x) && Number.isFinite(p.y);
+  if (!correspondences.every((c) => finite(c.source) && finite(c.target))) {
+    throw new Error("Point correspondences contain non-finite values.");
+  }
+
+  const { homography, conditionNumber } = solveHomography(correspondences);
+  const errors = correspondences.map((c) => transferError(homography, c));
+
+  return {
+    homography,
+    errors,
+    rmsError: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length),
+    maxError: Math.max(...errors),
+    outliers: findOutliers(correspondences, options.outlierThreshold),
+    conditionNumber
+  };
+}
@@ -6,6 +6,16 @@ const W_EPSILON = 1e-12;
 
 declare const process: { env?: { NODE_ENV?: string } } | undefined;
 
+function isProduction(): boolean {
+  return typeof process !== "undefined" && process?.env?.NODE_ENV === "production";
+}
+
+function normalizeHomography(H: Matrix3x3): Matrix3x3 {
+  const scale = H[8];
+  if (Math.abs(scale) < W_EPSILON || scale === 1) return H;
+  return H.map((value) => value / scale) as Matrix3x3;
+}
+
 function solveLinearSystem(A: number[][], b: number[]): number[] {
   const n = A.length;
   for (let i = 0; i < n; i += 1) {
@@ -58,13 +68,17 @@ function sanityCheckRectToQuad(
   quad: Quad,
   H: Matrix3x3
 ): void {
-  const src: Point2D[] = [
+  const src: Quad = [
     { x: 0, y: 0 },
     { x: width, y: 0 },
     { x: width, y: height },
     { x: 0, y: height }
   ];
 
+  sanityCheckQuadToQuad(src, quad, H);
+}
+
+function sanityCheckQuadToQuad(src: Quad, quad: Quad, H: Matrix3x3): void {
   for (let i = 0; i < 4; i += 1) {
     const mapped = applyHomography(H, src[i]);
     const target = quad[i];
@@ -118,14 +132,58 @@ export function computeHomographyRectToQuad(
     h[6], h[7], 1
   ];
 
-  const isProd = typeof process !== "undefined" && process?.env?.NODE_ENV === "production";
-  if (!isProd) {
+  if (!isProduction()) {
     sanityCheckRectToQuad(width, height, quad, H);
   }
 
   return H;
 }
 
+export function computeHomographyQuadToQuad(source: Quad, target: Quad): Matrix3x3 {
+  const validation = validateQuad(source, DEFAULT_EPSILON);
+  if (!validation.ok) {
+    throw new Error(`Invalid source quad: ${validation.reason}`);
+  }
+
+  const fromSource = computeHomographyRectToQuad(1, 1, source);
+  const toTarget = computeHomographyRectToQuad(1, 1, target);
+  const H = multiplyHomography(toTarget, invertHomography(fromSource));
+
+  if (!isProduction()) {
+    sanityCheckQuadToQuad(source, target, H);
+  }
+
+  return H;
+}
+
+export function invertHomography(H: Matrix3x3): Matrix3x3 {
+  const [a, b, c, d, e, f, g, h, i] = H;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+
+  if (Math.abs(det) < W_EPSILON) {
+    throw new Error("Homography is singular and cannot be inverted.");
+  }
+
+  return normalizeHomography([
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det
+  ]);
+}
+
+export function multiplyHomography(A: Matrix3x3, B: Matrix3x3): Matrix3x3 {
+  const M = new Array<number>(9);
+  for (let r = 0; r < 3; r += 1) {
+    for (let c = 0; c < 3; c += 1) {
+      M[r * 3 + c] = A[r * 3] * B[c] + A[r * 3 + 1] * B[3 + c] + A[r * 3 + 2] * B[6 + c];
+    }
+  }
+  return normalizeHomography(M as Matrix3x3);
+}
+
 export function applyHomography(H: Matrix3x3, p: Point2D): Point2D {
   const x = p.x;
   const y = p.y;
@@ -143,3 +201,7 @@ export function applyHomography(H: Matrix3x3, p: Point2D): Point2D {
     y: yPrime / wPrime
   };
 }
+
+export function applyInverseHomography(H: Matrix3x3, p: Point2D): Point2D {
+  return applyHomography(invertHomography(H), p);
+}
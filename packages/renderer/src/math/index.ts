@@ -2,3 +2,7 @@ export * from "./types";
 export * from "./validate";
 export * from "./homography";
 export * from "./css";
+export * from "./mesh";
+export * from "./dlt";
+export * from "./boolean";
+export * from "./bezier";
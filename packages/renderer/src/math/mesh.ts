@@ -0,0 +1,260 @@
+import type { Matrix3x3, MeshCell, MeshInterpolation, MeshTangent, MeshWarp, Point2D, Quad } from "./types";
+import { applyHomography, computeHomographyRectToQuad } from "./homography";
+
+const DEFAULT_SUBDIVISIONS = 4;
+
+function pointAt(mesh: MeshWarp, column: number, row: number): Point2D {
+  return mesh.points[row * mesh.columns + column];
+}
+
+function autoTangent(mesh: MeshWarp, column: number, row: number): MeshTangent {
+  const left = Math.max(column - 1, 0);
+  const right = Math.min(column + 1, mesh.columns - 1);
+  const up = Math.max(row - 1, 0);
+  const down = Math.min(row + 1, mesh.rows - 1);
+  const prevU = pointAt(mesh, left, row);
+  const nextU = pointAt(mesh, right, row);
+  const prevV = pointAt(mesh, column, up);
+  const nextV = pointAt(mesh, column, down);
+  const spanU = right - left || 1;
+  const spanV = down - up || 1;
+  return {
+    u: { x: (nextU.x - prevU.x) / spanU, y: (nextU.y - prevU.y) / spanU },
+    v: { x: (nextV.x - prevV.x) / spanV, y: (nextV.y - prevV.y) / spanV }
+  };
+}
+
+function tangentAt(mesh: MeshWarp, column: number, row: number): MeshTangent {
+  return mesh.tangents?.[row * mesh.columns + column] ?? autoTangent(mesh, column, row);
+}
+
+function offset(p: Point2D, a: Point2D, sa: number, b?: Point2D, sb = 0): Point2D {
+  return {
+    x: p.x + a.x * sa + (b ? b.x * sb : 0),
+    y: p.y + a.y * sa + (b ? b.y * sb : 0)
+  };
+}
+
+function bernstein(t: number): [number, number, number, number] {
+  const it = 1 - t;
+  return [it * it * it, 3 * t * it * it, 3 * t * t * it, t * t * t];
+}
+
+function evaluateBezierPatch(mesh: MeshWarp, column: number, row: number, s: number, t: number): Point2D {
+  const p00 = pointAt(mesh, column, row);
+  const p10 = pointAt(mesh, column + 1, row);
+  const p01 = pointAt(mesh, column, row + 1);
+  const p11 = pointAt(mesh, column + 1, row + 1);
+  const t00 = tangentAt(mesh, column, row);
+  const t10 = tangentAt(mesh, column + 1, row);
+  const t01 = tangentAt(mesh, column, row + 1);
+  const t11 = tangentAt(mesh, column + 1, row + 1);
+  const third = 1 / 3;
+
+  // Control net indexed [u][v]; interior points assume zero twist.
+  const net: Point2D[][] = [
+    [p00, offset(p00, t00.v, third), offset(p01, t01.v, -third), p01],
+    [
+      offset(p00, t00.u, third),
+      offset(p00, t00.u, third, t00.v, third),
+      offset(p01, t01.u, third, t01.v, -third),
+      offset(p01, t01.u, third)
+    ],
+    [
+      offset(p10, t10.u, -third),
+      offset(p10, t10.u, -third, t10.v, third),
+      offset(p11, t11.u, -third, t11.v, -third),
+      offset(p11, t11.u, -third)
+    ],
+    [p10, offset(p10, t10.v, third), offset(p11, t11.v, -third), p11]
+  ];
+
+  const bu = bernstein(s);
+  const bv = bernstein(t);
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < 4; i += 1) {
+    for (let j = 0; j < 4; j += 1) {
+      const weight = bu[i] * bv[j];
+      x += net[i][j].x * weight;
+      y += net[i][j].y * weight;
+    }
+  }
+  return { x, y };
+}
+
+function evaluateLinearCell(mesh: MeshWarp, column: number, row: number, s: number, t: number): Point2D {
+  const quad: Quad = [
+    pointAt(mesh, column, row),
+    pointAt(mesh, column + 1, row),
+    pointAt(mesh, column + 1, row + 1),
+    pointAt(mesh, column, row + 1)
+  ];
+  try {
+    return applyHomography(computeHomographyRectToQuad(1, 1, quad), { x: s, y: t });
+  } catch {
+    const top = { x: quad[0].x + (quad[1].x - quad[0].x) * s, y: quad[0].y + (quad[1].y - quad[0].y) * s };
+    const bottom = { x: quad[3].x + (quad[2].x - quad[3].x) * s, y: quad[3].y + (quad[2].y - quad[3].y) * s };
+    return { x: top.x + (bottom.x - top.x) * t, y: top.y + (bottom.y - top.y) * t };
+  }
+}
+
+export function validateMesh(mesh: MeshWarp): { ok: true } | { ok: false; reason: string } {
+  if (!Number.isInteger(mesh.columns) || !Number.isInteger(mesh.rows) || mesh.columns < 2 || mesh.rows < 2) {
+    return { ok: false, reason: "Mesh needs at least 2x2 control points." };
+  }
+
+  if (mesh.points.length !== mesh.columns * mesh.rows) {
+    return { ok: false, reason: "Mesh point count does not match its dimensions." };
+  }
+
+  if (mesh.tangents && mesh.tangents.length !== mesh.points.length) {
+    return { ok: false, reason: "Mesh tangent count does not match its points." };
+  }
+
+  if (mesh.points.some((p) => !Number.isFinite(p.x) || !Number.isFinite(p.y))) {
+    return { ok: false, reason: "Mesh contains non-finite points." };
+  }
+
+  return { ok: true };
+}
+
+export function createMeshFromQuad(
+  quad: Quad,
+  columns = 2,
+  rows = 2,
+  interpolation: MeshInterpolation = "linear"
+): MeshWarp {
+  if (!Number.isInteger(columns) || !Number.isInteger(rows) || columns < 2 || rows < 2) {
+    throw new Error("Mesh needs at least 2x2 control points.");
+  }
+
+  const H = computeHomographyRectToQuad(1, 1, quad);
+  const points: Point2D[] = [];
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      points.push(applyHomography(H, { x: column / (columns - 1), y: row / (rows - 1) }));
+    }
+  }
+
+  points[0] = { ...quad[0] };
+  points[columns - 1] = { ...quad[1] };
+  points[rows * columns - 1] = { ...quad[2] };
+  points[(rows - 1) * columns] = { ...quad[3] };
+
+  return { columns, rows, points, interpolation };
+}
+
+// Derivative of H at `point` applied to `vector`; `mapped` is H(point).
+function mapVector(H: Matrix3x3, point: Point2D, mapped: Point2D, vector: Point2D): Point2D {
+  const w = H[6] * point.x + H[7] * point.y + H[8];
+  return {
+    x: ((H[0] - mapped.x * H[6]) * vector.x + (H[1] - mapped.x * H[7]) * vector.y) / w,
+    y: ((H[3] - mapped.y * H[6]) * vector.x + (H[4] - mapped.y * H[7]) * vector.y) / w
+  };
+}
+
+// Maps the control points through H and their tangents through its Jacobian,
+// so Bezier meshes keep their curvature under a perspective transform.
+export function transformMesh(mesh: MeshWarp, H: Matrix3x3): MeshWarp {
+  const points = mesh.points.map((point) => applyHomography(H, point));
+  return {
+    ...mesh,
+    points,
+    tangents: mesh.tangents?.map((tangent, index) => ({
+      u: mapVector(H, mesh.points[index], points[index], tangent.u),
+      v: mapVector(H, mesh.points[index], points[index], tangent.v)
+    }))
+  };
+}
+
+export function getMeshCorners(mesh: MeshWarp): Quad {
+  return [
+    pointAt(mesh, 0, 0),
+    pointAt(mesh, mesh.columns - 1, 0),
+    pointAt(mesh, mesh.columns - 1, mesh.rows - 1),
+    pointAt(mesh, 0, mesh.rows - 1)
+  ];
+}
+
+export function evaluateMesh(mesh: MeshWarp, u: number, v: number): Point2D {
+  const fu = Math.min(Math.max(u, 0), 1) * (mesh.columns - 1);
+  const fv = Math.min(Math.max(v, 0), 1) * (mesh.rows - 1);
+  const column = Math.min(Math.floor(fu), mesh.columns - 2);
+  const row = Math.min(Math.floor(fv), mesh.rows - 2);
+  const s = fu - column;
+  const t = fv - row;
+
+  return mesh.interpolation === "bezier"
+    ? evaluateBezierPatch(mesh, column, row, s, t)
+    : evaluateLinearCell(mesh, column, row, s, t);
+}
+
+export function resampleMesh(mesh: MeshWarp, columns: number, rows: number): MeshWarp {
+  if (!Number.isInteger(columns) || !Number.isInteger(rows) || columns < 2 || rows < 2) {
+    throw new Error("Mesh needs at least 2x2 control points.");
+  }
+
+  const points: Point2D[] = [];
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      points.push(evaluateMesh(mesh, column / (columns - 1), row / (rows - 1)));
+    }
+  }
+
+  return { columns, rows, points, interpolation: mesh.interpolation };
+}
+
+export function subdivideMesh(
+  mesh: MeshWarp,
+  width: number,
+  height: number,
+  subdivisions: number = DEFAULT_SUBDIVISIONS
+): MeshCell[] {
+  const validation = validateMesh(mesh);
+  if (!validation.ok) {
+    throw new Error(`Invalid mesh: ${validation.reason}`);
+  }
+
+  const steps = mesh.interpolation === "bezier" ? Math.max(1, Math.floor(subdivisions)) : 1;
+  const gridColumns = (mesh.columns - 1) * steps + 1;
+  const gridRows = (mesh.rows - 1) * steps + 1;
+
+  const grid: Point2D[] = [];
+  for (let row = 0; row < gridRows; row += 1) {
+    for (let column = 0; column < gridColumns; column += 1) {
+      grid.push(steps === 1
+        ? pointAt(mesh, column, row)
+        : evaluateMesh(mesh, column / (gridColumns - 1), row / (gridRows - 1)));
+    }
+  }
+
+  const cellWidth = width / (gridColumns - 1);
+  const cellHeight = height / (gridRows - 1);
+  const cells: MeshCell[] = [];
+  for (let row = 0; row < gridRows - 1; row += 1) {
+    for (let column = 0; column < gridColumns - 1; column += 1) {
+      const index = row * gridColumns + column;
+      cells.push({
+        column,
+        row,
+        source: { x: column * cellWidth, y: row * cellHeight, width: cellWidth, height: cellHeight },
+        target: [grid[index], grid[index + 1], grid[index + gridColumns + 1], grid[index + gridColumns]]
+      });
+    }
+  }
+
+  return cells;
+}
+
+export function computeMeshCellHomography(cell: MeshCell): Matrix3x3 {
+  const { x, y, width, height } = cell.source;
+  const H = computeHomographyRectToQuad(width, height, cell.target);
+
+  // Shift the source rectangle to its position inside the full content.
+  return [
+    H[0], H[1], H[2] - H[0] * x - H[1] * y,
+    H[3], H[4], H[5] - H[3] * x - H[4] * y,
+    H[6], H[7], H[8] - H[6] * x - H[7] * y
+  ];
+}
@@ -17,3 +17,56 @@ export type Point2D = {
 };
 
 export type Quad = [Point2D, Point2D, Point2D, Point2D];
+
+export type MeshInterpolation = "linear" | "bezier";
+
+export type MeshTangent = {
+  u: Point2D;
+  v: Point2D;
+};
+
+export type MeshWarp = {
+  columns: number;
+  rows: number;
+  points: Point2D[];
+  interpolation: MeshInterpolation;
+  tangents?: MeshTangent[];
+};
+
+export type MeshCell = {
+  column: number;
+  row: number;
+  source: { x: number; y: number; width: number; height: number };
+  target: Quad;
+};
+
+export type PointCorrespondence = {
+  source: Point2D;
+  target: Point2D;
+};
+
+export type HomographyFit = {
+  homography: Matrix3x3;
+  errors: number[];
+  rmsError: number;
+  maxError: number;
+  outliers: number[];
+  conditionNumber: number;
+};
+
+export type MaskMode = "include" | "exclude";
+
+export type CubicSegment = {
+  c1: Point2D;
+  c2: Point2D;
+};
+
+// curves[i] bends the segment from polygon[i] to polygon[i + 1]; a missing
+// entry keeps it straight.
+export type MaskShape = {
+  mode: MaskMode;
+  polygon: Point2D[];
+  curves?: (CubicSegment | null)[];
+  feather?: number;
+  edgeFeather?: number[];
+};
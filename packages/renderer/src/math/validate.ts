@@ -94,3 +94,120 @@ export function validateQuad(
 
   return { ok: true };
 }
+
+export function polygonArea(polygon: readonly Point2D[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i += 1) {
+    const p1 = polygon[i];
+    const p2 = polygon[(i + 1) % polygon.length];
+    sum += p1.x * p2.y - p2.x * p1.y;
+  }
+  return sum / 2;
+}
+
+// A vertex on the straight segment between its neighbours is redundant but
+// harmless; one that doubles back creates a zero-width spike.
+function hasCollinearSpike(polygon: readonly Point2D[], epsilon: number): boolean {
+  const count = polygon.length;
+  return polygon.some((point, i) => {
+    const prev = polygon[(i - 1 + count) % count];
+    const next = polygon[(i + 1) % count];
+    if (Math.abs(cross(prev, point, next)) > epsilon) return false;
+    return (prev.x - point.x) * (next.x - point.x) + (prev.y - point.y) * (next.y - point.y) > 0;
+  });
+}
+
+function isSelfIntersectingPolygon(polygon: readonly Point2D[], epsilon: number): boolean {
+  const count = polygon.length;
+  for (let i = 0; i < count; i += 1) {
+    for (let j = i + 2; j < count; j += 1) {
+      if (i === 0 && j === count - 1) continue;
+      if (segmentsIntersect(polygon[i], polygon[(i + 1) % count], polygon[j], polygon[(j + 1) % count], epsilon)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function validatePolygon(
+  polygon: readonly Point2D[],
+  epsilon: number = DEFAULT_EPSILON
+): { ok: true } | { ok: false; reason: string } {
+  if (polygon.length < 3) {
+    return { ok: false, reason: "Polygon needs at least 3 points." };
+  }
+
+  if (polygon.some((p) => !Number.isFinite(p.x) || !Number.isFinite(p.y))) {
+    return { ok: false, reason: "Polygon contains non-finite points." };
+  }
+
+  for (let i = 0; i < polygon.length; i += 1) {
+    for (let j = i + 1; j < polygon.length; j += 1) {
+      if (pointsEqual(polygon[i], polygon[j])) {
+        return { ok: false, reason: "Polygon contains duplicate points." };
+      }
+    }
+  }
+
+  if (hasCollinearSpike(polygon, epsilon)) {
+    return { ok: false, reason: "Polygon has collinear points." };
+  }
+
+  if (isSelfIntersectingPolygon(polygon, epsilon)) {
+    return { ok: false, reason: "Polygon is self-intersecting." };
+  }
+
+  if (Math.abs(polygonArea(polygon)) <= epsilon) {
+    return { ok: false, reason: "Polygon area is too small." };
+  }
+
+  if (polygonArea(polygon) < 0) {
+    return { ok: false, reason: "Polygon must be clockwise." };
+  }
+
+  return { ok: true };
+}
+
+function simplifyPolygon(polygon: Point2D[], epsilon: number): Point2D[] {
+  const points = [...polygon];
+  let index = 0;
+  let unchanged = 0;
+  while (points.length > 3 && unchanged < points.length) {
+    const count = points.length;
+    const prev = points[(index - 1 + count) % count];
+    const next = points[(index + 1) % count];
+    if (Math.abs(cross(prev, points[index], next)) <= epsilon) {
+      points.splice(index, 1);
+      index %= points.length;
+      unchanged = 0;
+    } else {
+      index = (index + 1) % count;
+      unchanged += 1;
+    }
+  }
+  return points;
+}
+
+export function repairPolygon(polygon: readonly Point2D[], epsilon: number = DEFAULT_EPSILON): Point2D[] {
+  const points: Point2D[] = [];
+  for (const point of polygon) {
+    if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) continue;
+    if (points.some((existing) => Math.hypot(existing.x - point.x, existing.y - point.y) <= epsilon)) continue;
+    points.push({ x: point.x, y: point.y });
+  }
+  if (points.length < 3) return points;
+
+  let repaired = simplifyPolygon(points, epsilon);
+  if (isSelfIntersectingPolygon(repaired, epsilon)) {
+    // Sorting by angle around the centroid yields a simple (star-shaped) outline.
+    const cx = repaired.reduce((sum, p) => sum + p.x, 0) / repaired.length;
+    const cy = repaired.reduce((sum, p) => sum + p.y, 0) / repaired.length;
+    repaired = simplifyPolygon(
+      [...repaired].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)),
+      epsilon
+    );
+  }
+
+  return polygonArea(repaired) < 0 ? repaired.reverse() : repaired;
+}
@@ -0,0 +1,124 @@
+import type { MeshWarp, Point2D, Quad } from "./math/types";
+import { applyHomography, computeHomographyRectToQuad, invertHomography } from "./math/homography";
+import { computeMeshCellHomography, subdivideMesh } from "./math/mesh";
+import { containsPoint } from "./raster/geometry";
+
+export type PickStroke = {
+  points: Point2D[];
+  width: number;
+};
+
+export type PickTarget = {
+  id: string;
+  width: number;
+  height: number;
+  quad: Quad;
+  mesh?: MeshWarp;
+  zIndex: number;
+  visible?: boolean;
+  shape?: "rect" | "circle" | "triangle";
+  // Combined mask region in stage space; an empty list hides the surface.
+  clip?: Point2D[][];
+  // Polylines are hit along their stroke instead of their quad.
+  stroke?: PickStroke;
+};
+
+export type PickHit = {
+  id: string;
+  // Surface-local coordinate, 0..1 across the content rectangle.
+  uv: Point2D;
+};
+
+const STROKE_TOLERANCE = 4;
+
+function distanceToSegment(point: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0
+    ? Math.min(Math.max(((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq, 0), 1)
+    : 0;
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+}
+
+function hitsStroke(point: Point2D, stroke: PickStroke): boolean {
+  const reach = stroke.width / 2 + STROKE_TOLERANCE;
+  for (let i = 0; i + 1 < stroke.points.length; i += 1) {
+    if (distanceToSegment(point, stroke.points[i], stroke.points[i + 1]) <= reach) return true;
+  }
+  return false;
+}
+
+function insideShape(shape: PickTarget["shape"], uv: Point2D): boolean {
+  if (shape === "circle") return Math.hypot(uv.x - 0.5, uv.y - 0.5) <= 0.5;
+  if (shape === "triangle") return uv.y >= Math.abs(2 * uv.x - 1);
+  return true;
+}
+
+// Maps a stage point back into content coordinates, or null outside the warp.
+function locate(point: Point2D, target: PickTarget): Point2D | null {
+  const cells = target.mesh
+    ? subdivideMesh(target.mesh, target.width, target.height).map((cell) => ({
+      target: cell.target,
+      homography: () => computeMeshCellHomography(cell)
+    }))
+    : [{
+      target: target.quad,
+      homography: () => computeHomographyRectToQuad(target.width, target.height, target.quad)
+    }];
+
+  for (const cell of cells) {
+    if (!containsPoint(cell.target, point.x, point.y)) continue;
+    try {
+      const local = applyHomography(invertHomography(cell.homography()), point);
+      return { x: local.x / target.width, y: local.y / target.height };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function hitTest(point: Point2D, target: PickTarget): Point2D | null {
+  if (target.visible === false || target.width <= 0 || target.height <= 0) return null;
+  if (target.clip) {
+    let inside = false;
+    for (const polygon of target.clip) {
+      if (polygon.length >= 3 && containsPoint(polygon, point.x, point.y)) inside = !inside;
+    }
+    if (!inside) return null;
+  }
+
+  if (target.stroke) {
+    if (!hitsStroke(point, target.stroke)) return null;
+    return locate(point, target) ?? { x: point.x / target.width, y: point.y / target.height };
+  }
+
+  let uv: Point2D | null;
+  try {
+    uv = locate(point, target);
+  } catch {
+    return null;
+  }
+  if (!uv || uv.x < 0 || uv.y < 0 || uv.x > 1 || uv.y > 1) return null;
+  return insideShape(target.shape, uv) ? uv : null;
+}
+
+// All surfaces under the point, topmost first. Equal zIndex keeps list order,
+// so later entries are on top, as in the DOM.
+export function pickSurfaces(point: Point2D, targets: PickTarget[]): PickHit[] {
+  const ordered = targets
+    .map((target, index) => ({ target, index }))
+    .sort((left, right) => right.target.zIndex - left.target.zIndex || right.index - left.index);
+
+  const hits: PickHit[] = [];
+  for (const { target } of ordered) {
+    const uv = hitTest(point, target);
+    if (uv) hits.push({ id: target.id, uv });
+  }
+  return hits;
+}
+
+export function pickSurface(point: Point2D, targets: PickTarget[]): PickHit | null {
+  return pickSurfaces(point, targets)[0] ?? null;
+}
@@ -0,0 +1,15 @@
+import type { Point2D } from "../math/types";
+
+// Crossing test with a half-open rule, so pixels on an edge shared by two
+// mesh cells are covered exactly once.
+export function containsPoint(polygon: readonly Point2D[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./rasterize";
+export { encodePng } from "./png";
+export * from "./mask";
+export * from "./project";
@@ -0,0 +1,88 @@
+import { flattenMaskShape } from "../math/bezier";
+import type { MaskShape, Point2D } from "../math/types";
+import { containsPoint } from "./geometry";
+import type { RasterImage } from "./types";
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared, 0), 1)
+    : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function smoothstep(t: number): number {
+  const x = Math.min(Math.max(t, 0), 1);
+  return x * x * (3 - 2 * x);
+}
+
+// Feathering fades inwards from each edge, so the outer boundary of a mask
+// stays where it was drawn.
+function maskCoverage(mask: MaskShape, feathers: number[], point: Point2D): number {
+  if (!containsPoint(mask.polygon, point.x, point.y)) return 0;
+  let coverage = 1;
+  for (let i = 0; i < mask.polygon.length; i += 1) {
+    const feather = feathers[i];
+    if (feather <= 0) continue;
+    const distance = distanceToSegment(point, mask.polygon[i], mask.polygon[(i + 1) % mask.polygon.length]);
+    coverage = Math.min(coverage, smoothstep(distance / feather));
+  }
+  return coverage;
+}
+
+export function getMaskEdgeFeather(mask: MaskShape): number[] {
+  return mask.polygon.map((_, index) => Math.max(0, mask.edgeFeather?.[index] ?? mask.feather ?? 0));
+}
+
+export function isFeatheredMask(mask: MaskShape): boolean {
+  return getMaskEdgeFeather(mask).some((feather) => feather > 0);
+}
+
+// Combines masks in list order like combineMasks, but with soft coverage:
+// include is a fuzzy union, exclude multiplies by the inverse coverage.
+export function rasterizeMaskAlpha(
+  masks: MaskShape[],
+  width: number,
+  height: number,
+  resolution = 1
+): RasterImage {
+  const pixelWidth = Math.max(1, Math.round(width * resolution));
+  const pixelHeight = Math.max(1, Math.round(height * resolution));
+  const scaleX = width / pixelWidth;
+  const scaleY = height / pixelHeight;
+  const alpha = new Float32Array(pixelWidth * pixelHeight);
+  if (masks.length > 0 && masks[0].mode === "exclude") alpha.fill(1);
+
+  for (const mask of masks.map((shape) => flattenMaskShape(shape))) {
+    if (mask.polygon.length < 3) continue;
+    const feathers = getMaskEdgeFeather(mask);
+    const xs = mask.polygon.map((p) => p.x / scaleX);
+    const ys = mask.polygon.map((p) => p.y / scaleY);
+    const minX = Math.max(Math.floor(Math.min(...xs)), 0);
+    const maxX = Math.min(Math.ceil(Math.max(...xs)), pixelWidth - 1);
+    const minY = Math.max(Math.floor(Math.min(...ys)), 0);
+    const maxY = Math.min(Math.ceil(Math.max(...ys)), pixelHeight - 1);
+
+    for (let y = minY; y <= maxY; y += 1) {
+      for (let x = minX; x <= maxX; x += 1) {
+        const coverage = maskCoverage(mask, feathers, { x: (x + 0.5) * scaleX, y: (y + 0.5) * scaleY });
+        if (coverage <= 0) continue;
+        const index = y * pixelWidth + x;
+        alpha[index] = mask.mode === "include"
+          ? alpha[index] + coverage - alpha[index] * coverage
+          : alpha[index] * (1 - coverage);
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(pixelWidth * pixelHeight * 4);
+  for (let i = 0; i < alpha.length; i += 1) {
+    data[i * 4] = 255;
+    data[i * 4 + 1] = 255;
+    data[i * 4 + 2] = 255;
+    data[i * 4 + 3] = Math.round(alpha[i] * 255);
+  }
+  return { width: pixelWidth, height: pixelHeight, data };
+}
@@ -0,0 +1,124 @@
+import type { RasterImage } from "./types";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  const table = getCrcTable();
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i += 1) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i += 1) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function deflateStored(data: Uint8Array): Uint8Array {
+  const blocks = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + data.length + blocks * 5 + 4);
+  let offset = 0;
+  out[offset++] = 0x78;
+  out[offset++] = 0x01;
+
+  for (let block = 0; block < blocks; block += 1) {
+    const start = block * MAX_STORED_BLOCK;
+    const end = Math.min(start + MAX_STORED_BLOCK, data.length);
+    const length = end - start;
+    out[offset++] = block === blocks - 1 ? 1 : 0;
+    out[offset++] = length & 0xff;
+    out[offset++] = (length >>> 8) & 0xff;
+    out[offset++] = ~length & 0xff;
+    out[offset++] = (~length >>> 8) & 0xff;
+    out.set(data.subarray(start, end), offset);
+    offset += length;
+  }
+
+  const checksum = adler32(data);
+  out[offset++] = (checksum >>> 24) & 0xff;
+  out[offset++] = (checksum >>> 16) & 0xff;
+  out[offset++] = (checksum >>> 8) & 0xff;
+  out[offset++] = checksum & 0xff;
+  return out;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i += 1) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export function encodePng(
+  image: RasterImage,
+  options: { deflate?: (data: Uint8Array) => Uint8Array } = {}
+): Uint8Array {
+  const { width, height, data } = image;
+  if (data.length !== width * height * 4) {
+    throw new Error("Raster image data does not match its dimensions.");
+  }
+
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8;
+  header[9] = 6;
+
+  // Callers in Node can pass zlib.deflateSync; the default writes stored blocks.
+  const compressed = (options.deflate ?? deflateStored)(raw);
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", compressed),
+    chunk("IEND", new Uint8Array(0))
+  ];
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
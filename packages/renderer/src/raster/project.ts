@@ -0,0 +1,193 @@
+import type { Matrix3x3, MaskShape, MeshWarp, Point2D, Quad } from "../math/types";
+import { applyHomography, computeHomographyQuadToQuad } from "../math/homography";
+import { transformMesh } from "../math/mesh";
+import { validatePolygon } from "../math/validate";
+import { flattenMaskShape, orientMaskShape } from "../math/bezier";
+import { combineMasks } from "../math/boolean";
+import { computeFullscreenQuad, getQuadCenter, rotateMesh, rotateQuad, scaleMesh, scaleQuad } from "../layout";
+import type { FullscreenAlign, FullscreenFit } from "../layout";
+import type { ColorCorrection } from "../color";
+import type { BlendMode } from "../blend";
+import { resolveGroups } from "../group";
+import type { GroupNode } from "../group";
+import { isFeatheredMask, rasterizeMaskAlpha } from "./mask";
+import type { RasterImage, RasterLayer } from "./types";
+
+// The parts of a project surface the rasterizer uses; core's Surface fits it.
+export type RasterSurface = {
+  id: string;
+  type: string;
+  quad: Quad;
+  width: number;
+  height: number;
+  visible: boolean;
+  opacity: number;
+  zIndex: number;
+  // Older documents carry a single include polygon here.
+  mask?: Point2D[];
+  masks?: MaskShape[];
+  // LINE surfaces draw these points in stage space instead of their quad.
+  points?: Point2D[];
+  mesh?: MeshWarp;
+  scale: { x: number; y: number };
+  rotation?: number;
+  fullscreen: { enabled: boolean; fit: FullscreenFit; align: FullscreenAlign };
+  colorCorrection?: ColorCorrection;
+  blendMode?: BlendMode;
+  content?: { src?: string; shape?: "rect" | "circle" | "triangle" };
+  groupId?: string;
+};
+
+export type RasterProject = {
+  surfaces: RasterSurface[];
+  groups?: GroupNode[];
+  scenes: { id: string; surfaceIds: string[] }[];
+  activeSceneId?: string;
+};
+
+export type RasterSurfaceOptions = {
+  // Stage size, used for fullscreen layout, polylines and masks.
+  width: number;
+  height: number;
+  groups?: GroupNode[];
+  // Decoded content of image, video, text and line surfaces by surface id;
+  // surfaces without one are left out, COLOR surfaces draw their own color.
+  // Polylines are expected as a stage-sized image.
+  textures?: Record<string, RasterImage>;
+  // Resolution of the alpha image that feathered masks are drawn into.
+  maskResolution?: number;
+};
+
+function parseHexColor(value: string | undefined): [number, number, number, number] {
+  const hex = (value ?? "").trim().replace(/^#/, "");
+  const full = hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [1, 1, 1, 1];
+  return [
+    parseInt(full.slice(0, 2), 16) / 255,
+    parseInt(full.slice(2, 4), 16) / 255,
+    parseInt(full.slice(4, 6), 16) / 255,
+    1
+  ];
+}
+
+function stageQuad(width: number, height: number): Quad {
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height }
+  ];
+}
+
+function mapMask(mask: MaskShape, H: Matrix3x3): MaskShape {
+  const map = (point: Point2D) => applyHomography(H, point);
+  return {
+    ...mask,
+    polygon: mask.polygon.map(map),
+    curves: mask.curves?.map((curve) => (curve ? { c1: map(curve.c1), c2: map(curve.c2) } : null))
+  };
+}
+
+// Quad and mesh as drawn: the fullscreen layout, or scale then rotation about
+// the quad center, matching the editor.
+function getSurfaceGeometry(surface: RasterSurface, options: RasterSurfaceOptions): { quad: Quad; mesh?: MeshWarp } {
+  if (surface.fullscreen.enabled) {
+    const quad = computeFullscreenQuad(
+      options.width,
+      options.height,
+      surface.width,
+      surface.height,
+      surface.fullscreen.fit,
+      surface.fullscreen.align
+    );
+    return {
+      quad,
+      mesh: surface.mesh ? transformMesh(surface.mesh, computeHomographyQuadToQuad(surface.quad, quad)) : undefined
+    };
+  }
+  const center = getQuadCenter(surface.quad);
+  const rotation = surface.rotation ?? 0;
+  return {
+    quad: rotateQuad(scaleQuad(surface.quad, surface.scale.x, surface.scale.y, center), rotation, center),
+    mesh: surface.mesh
+      ? rotateMesh(scaleMesh(surface.mesh, surface.scale.x, surface.scale.y, center), rotation, center)
+      : undefined
+  };
+}
+
+// Maps project surfaces onto raster layers the way the editor draws them:
+// group visibility, opacity and transforms apply, invalid masks are skipped
+// and feathered masks become an alpha mask. Keyframes are not sampled; pass
+// surfaces as they should appear.
+export function surfacesToRasterLayers(surfaces: RasterSurface[], options: RasterSurfaceOptions): RasterLayer[] {
+  const groups = resolveGroups(options.groups ?? []);
+  return surfaces.flatMap((surface): RasterLayer[] => {
+    const group = surface.groupId !== undefined ? groups.get(surface.groupId) : undefined;
+    if (!surface.visible || group?.visible === false) return [];
+    const H = group?.homography ?? null;
+
+    const isLine = surface.type === "LINE";
+    const isPolyline = isLine && !!surface.points && surface.points.length >= 2;
+    const texture = options.textures?.[surface.id];
+    const color = surface.type === "COLOR" ? parseHexColor(surface.content?.src) : undefined;
+    if (!texture && !color) return [];
+
+    let geometry: { quad: Quad; mesh?: MeshWarp };
+    try {
+      geometry = isPolyline ? { quad: stageQuad(options.width, options.height) } : getSurfaceGeometry(surface, options);
+      if (H && !isPolyline) {
+        geometry = {
+          quad: geometry.quad.map((point) => applyHomography(H, point)) as Quad,
+          mesh: geometry.mesh ? transformMesh(geometry.mesh, H) : undefined
+        };
+      }
+    } catch {
+      return [];
+    }
+
+    const masks = isLine
+      ? []
+      : (surface.masks ?? (surface.mask && surface.mask.length >= 3 ? [{ mode: "include" as const, polygon: surface.mask }] : []))
+        .map((mask) => orientMaskShape(H ? mapMask(mask, H) : mask))
+        .filter((mask) => validatePolygon(flattenMaskShape(mask).polygon).ok);
+    let clip: Point2D[][] | undefined;
+    let alphaMask: RasterImage | undefined;
+    if (masks.some(isFeatheredMask)) {
+      alphaMask = rasterizeMaskAlpha(masks, options.width, options.height, options.maskResolution ?? 1);
+    } else if (masks.length > 0) {
+      clip = combineMasks(masks, stageQuad(options.width, options.height));
+      if (clip.length === 0) return [];
+    }
+
+    return [{
+      id: surface.id,
+      width: isPolyline ? options.width : surface.width,
+      height: isPolyline ? options.height : surface.height,
+      quad: geometry.quad,
+      mesh: geometry.mesh,
+      opacity: surface.opacity * (group?.opacity ?? 1),
+      zIndex: surface.zIndex,
+      texture,
+      color,
+      fit: texture && !isLine && surface.type !== "TEXT" ? "cover" : undefined,
+      shape: !surface.masks?.length && !isLine ? surface.content?.shape : "rect",
+      clip,
+      alphaMask,
+      colorCorrection: surface.colorCorrection,
+      blendMode: surface.blendMode
+    }];
+  });
+}
+
+// Layers of the active scene, or of the first scene when none is active.
+export function projectToRasterLayers(
+  project: RasterProject,
+  options: Omit<RasterSurfaceOptions, "groups">
+): RasterLayer[] {
+  const scene = project.scenes.find((item) => item.id === project.activeSceneId) ?? project.scenes[0];
+  const ids = new Set(scene?.surfaceIds ?? project.surfaces.map((surface) => surface.id));
+  return surfacesToRasterLayers(
+    project.surfaces.filter((surface) => ids.has(surface.id)),
+    { ...options, groups: project.groups }
+  );
+}
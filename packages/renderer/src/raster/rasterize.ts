@@ -0,0 +1,312 @@
+import type { Matrix3x3, Point2D, Quad } from "../math/types";
+import { computeHomographyRectToQuad, invertHomography } from "../math/homography";
+import { computeMeshCellHomography, subdivideMesh } from "../math/mesh";
+import { scaleMesh } from "../layout";
+import { computeKeystoneInverse, isIdentityCorrection, mapCorrectedPoint } from "../correction";
+import type { CorrectedOutput } from "../correction";
+import { applyColorCorrection, isNeutralColorCorrection } from "../color";
+import { blendPremultiplied } from "../blend";
+import { containsPoint } from "./geometry";
+import { encodePng } from "./png";
+import type { RasterFrameOptions, RasterImage, RasterLayer } from "./types";
+
+type RasterCell = { target: Quad; inverse: Matrix3x3 };
+
+export function createRasterImage(
+  width: number,
+  height: number,
+  fill: [number, number, number, number] = [0, 0, 0, 0]
+): RasterImage {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error("Raster image size must be a positive integer.");
+  }
+  const data = new Uint8ClampedArray(width * height * 4);
+  const rgba = fill.map((channel) => Math.round(channel * 255));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = rgba[0];
+    data[i + 1] = rgba[1];
+    data[i + 2] = rgba[2];
+    data[i + 3] = rgba[3];
+  }
+  return { width, height, data };
+}
+
+function computeLayerCells(layer: RasterLayer, scale: number): RasterCell[] {
+  if (layer.mesh) {
+    const mesh = scale === 1 ? layer.mesh : scaleMesh(layer.mesh, scale, scale, { x: 0, y: 0 });
+    return subdivideMesh(mesh, layer.width, layer.height).flatMap((cell) => {
+      try {
+        return [{ target: cell.target, inverse: invertHomography(computeMeshCellHomography(cell)) }];
+      } catch {
+        return [];
+      }
+    });
+  }
+  const quad = layer.quad.map((p) => ({ x: p.x * scale, y: p.y * scale })) as Quad;
+  const H = computeHomographyRectToQuad(layer.width, layer.height, quad);
+  return [{ target: quad, inverse: invertHomography(H) }];
+}
+
+function insideShape(shape: RasterLayer["shape"], u: number, v: number): boolean {
+  if (shape === "circle") return Math.hypot(u - 0.5, v - 0.5) <= 0.5;
+  if (shape === "triangle") return v >= Math.abs(2 * u - 1);
+  return true;
+}
+
+function sampleTexture(texture: RasterImage, u: number, v: number, out: Float32Array): void {
+  const x = Math.min(Math.max(u * texture.width - 0.5, 0), texture.width - 1);
+  const y = Math.min(Math.max(v * texture.height - 0.5, 0), texture.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, texture.width - 1);
+  const y1 = Math.min(y0 + 1, texture.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const data = texture.data;
+  const i00 = (y0 * texture.width + x0) * 4;
+  const i10 = (y0 * texture.width + x1) * 4;
+  const i01 = (y1 * texture.width + x0) * 4;
+  const i11 = (y1 * texture.width + x1) * 4;
+
+  const w00 = (1 - fx) * (1 - fy);
+  const w10 = fx * (1 - fy);
+  const w01 = (1 - fx) * fy;
+  const w11 = fx * fy;
+  const a00 = data[i00 + 3] / 255;
+  const a10 = data[i10 + 3] / 255;
+  const a01 = data[i01 + 3] / 255;
+  const a11 = data[i11 + 3] / 255;
+
+  // Interpolate premultiplied values so transparent texels do not bleed colour.
+  for (let c = 0; c < 3; c += 1) {
+    out[c] = (
+      data[i00 + c] * a00 * w00 +
+      data[i10 + c] * a10 * w10 +
+      data[i01 + c] * a01 * w01 +
+      data[i11 + c] * a11 * w11
+    ) / 255;
+  }
+  out[3] = a00 * w00 + a10 * w10 + a01 * w01 + a11 * w11;
+}
+
+function computeCoverTransform(layer: RasterLayer, texture: RasterImage): [number, number, number, number] {
+  if (layer.fit !== "cover") return [1, 1, 0, 0];
+  const scale = Math.max(layer.width / texture.width, layer.height / texture.height);
+  const scaleX = layer.width / (texture.width * scale);
+  const scaleY = layer.height / (texture.height * scale);
+  return [scaleX, scaleY, (1 - scaleX) / 2, (1 - scaleY) / 2];
+}
+
+function drawLayer(
+  target: Float32Array,
+  width: number,
+  height: number,
+  layer: RasterLayer,
+  scale: number
+): void {
+  const cells = computeLayerCells(layer, scale);
+  const clip = layer.clip
+    ?.filter((polygon) => polygon.length >= 3)
+    .map((polygon) => polygon.map((p) => ({ x: p.x * scale, y: p.y * scale })));
+  const texture = layer.texture;
+  const uvTransform = texture ? computeCoverTransform(layer, texture) : null;
+  const color = layer.color ?? [1, 1, 1, 1];
+  const opacity = Math.min(Math.max(layer.opacity, 0), 1);
+  const alphaMask = layer.alphaMask && layer.alphaMask.width > 0 && layer.alphaMask.height > 0
+    ? layer.alphaMask
+    : undefined;
+  const grading = layer.colorCorrection && !isNeutralColorCorrection(layer.colorCorrection)
+    ? layer.colorCorrection
+    : null;
+  const blendMode = layer.blendMode && layer.blendMode !== "normal" ? layer.blendMode : null;
+  const sample = new Float32Array(4);
+  const backdrop = new Float32Array(4);
+
+  for (const cell of cells) {
+    const xs = cell.target.map((p) => p.x);
+    const ys = cell.target.map((p) => p.y);
+    const minX = Math.max(Math.floor(Math.min(...xs)), 0);
+    const maxX = Math.min(Math.ceil(Math.max(...xs)), width - 1);
+    const minY = Math.max(Math.floor(Math.min(...ys)), 0);
+    const maxY = Math.min(Math.ceil(Math.max(...ys)), height - 1);
+    const H = cell.inverse;
+
+    for (let y = minY; y <= maxY; y += 1) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x += 1) {
+        const px = x + 0.5;
+        if (!containsPoint(cell.target, px, py)) continue;
+        if (clip && clip.length > 0) {
+          // Even-odd across all polygons, matching the stencil INVERT of the WebGL path.
+          let inside = false;
+          for (const polygon of clip) {
+            if (containsPoint(polygon, px, py)) inside = !inside;
+          }
+          if (!inside) continue;
+        }
+
+        const w = H[6] * px + H[7] * py + H[8];
+        const u = (H[0] * px + H[1] * py + H[2]) / w / layer.width;
+        const v = (H[3] * px + H[4] * py + H[5]) / w / layer.height;
+        if (u < 0 || v < 0 || u > 1 || v > 1 || !insideShape(layer.shape, u, v)) continue;
+
+        if (texture && uvTransform) {
+          sampleTexture(texture, u * uvTransform[0] + uvTransform[2], v * uvTransform[1] + uvTransform[3], sample);
+        } else {
+          sample[0] = color[0] * color[3];
+          sample[1] = color[1] * color[3];
+          sample[2] = color[2] * color[3];
+          sample[3] = color[3];
+        }
+        if (grading && sample[3] > 0) {
+          const graded = applyColorCorrection(
+            [sample[0] / sample[3], sample[1] / sample[3], sample[2] / sample[3]],
+            grading
+          );
+          sample[0] = graded[0] * sample[3];
+          sample[1] = graded[1] * sample[3];
+          sample[2] = graded[2] * sample[3];
+        }
+
+        let coverage = opacity;
+        if (alphaMask) {
+          const mx = Math.min(Math.floor((px / width) * alphaMask.width), alphaMask.width - 1);
+          const my = Math.min(Math.floor((py / height) * alphaMask.height), alphaMask.height - 1);
+          coverage *= alphaMask.data[(my * alphaMask.width + mx) * 4 + 3] / 255;
+          if (coverage <= 0) continue;
+        }
+
+        const index = (y * width + x) * 4;
+        if (blendMode) {
+          for (let c = 0; c < 4; c += 1) {
+            sample[c] *= coverage;
+            backdrop[c] = target[index + c];
+          }
+          blendPremultiplied(blendMode, sample, backdrop, sample);
+          target.set(sample, index);
+          continue;
+        }
+        const inverseAlpha = 1 - sample[3] * coverage;
+        target[index] = sample[0] * coverage + target[index] * inverseAlpha;
+        target[index + 1] = sample[1] * coverage + target[index + 1] * inverseAlpha;
+        target[index + 2] = sample[2] * coverage + target[index + 2] * inverseAlpha;
+        target[index + 3] = sample[3] * coverage + target[index + 3] * inverseAlpha;
+      }
+    }
+  }
+}
+
+// Resamples each output region of a composited frame; later outputs win where regions overlap.
+export function applyOutputCorrection(image: RasterImage, outputs: CorrectedOutput[]): RasterImage {
+  const active = outputs.filter((output) => !isIdentityCorrection(output.correction));
+  if (active.length === 0) return image;
+
+  const result: RasterImage = { width: image.width, height: image.height, data: new Uint8ClampedArray(image.data) };
+  const sample = new Float32Array(4);
+  for (const { region, correction } of active) {
+    let inverse: Matrix3x3;
+    try {
+      inverse = computeKeystoneInverse(correction);
+    } catch {
+      continue;
+    }
+    const minX = Math.max(Math.floor(region.x), 0);
+    const maxX = Math.min(Math.ceil(region.x + region.width), image.width);
+    const minY = Math.max(Math.floor(region.y), 0);
+    const maxY = Math.min(Math.ceil(region.y + region.height), image.height);
+
+    for (let y = minY; y < maxY; y += 1) {
+      for (let x = minX; x < maxX; x += 1) {
+        const point = {
+          x: (x + 0.5 - region.x) / region.width,
+          y: (y + 0.5 - region.y) / region.height
+        };
+        const index = (y * image.width + x) * 4;
+        const source = mapCorrectedPoint(correction, region.width, region.height, point, inverse);
+        if (!source) {
+          result.data[index] = 0;
+          result.data[index + 1] = 0;
+          result.data[index + 2] = 0;
+          result.data[index + 3] = 0;
+          continue;
+        }
+        sampleTexture(
+          image,
+          (region.x + source.x * region.width) / image.width,
+          (region.y + source.y * region.height) / image.height,
+          sample
+        );
+        const a = sample[3];
+        result.data[index] = a > 0 ? Math.round((sample[0] / a) * 255) : 0;
+        result.data[index + 1] = a > 0 ? Math.round((sample[1] / a) * 255) : 0;
+        result.data[index + 2] = a > 0 ? Math.round((sample[2] / a) * 255) : 0;
+        result.data[index + 3] = Math.round(a * 255);
+      }
+    }
+  }
+  return result;
+}
+
+export function rasterizeLayers(layers: RasterLayer[], options: RasterFrameOptions): RasterImage {
+  const image = createRasterImage(options.width, options.height);
+  const scale = Math.max(1, Math.floor(options.supersample ?? 1));
+  const width = options.width * scale;
+  const height = options.height * scale;
+  const buffer = new Float32Array(width * height * 4);
+
+  const background = options.background ?? [0, 0, 0, 0];
+  for (let i = 0; i < buffer.length; i += 4) {
+    buffer[i] = background[0] * background[3];
+    buffer[i + 1] = background[1] * background[3];
+    buffer[i + 2] = background[2] * background[3];
+    buffer[i + 3] = background[3];
+  }
+
+  // Same ordering and skip rules as the WebGL compositor.
+  const ordered = [...layers].sort((left, right) => left.zIndex - right.zIndex);
+  for (const layer of ordered) {
+    if (layer.visible === false || layer.opacity <= 0 || layer.width <= 0 || layer.height <= 0) continue;
+    if (layer.texture && (layer.texture.width <= 0 || layer.texture.height <= 0)) continue;
+    if (!layer.texture && !layer.color) continue;
+    try {
+      drawLayer(buffer, width, height, layer, scale);
+    } catch {
+      continue;
+    }
+  }
+
+  const samples = scale * scale;
+  for (let y = 0; y < options.height; y += 1) {
+    for (let x = 0; x < options.width; x += 1) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = 0; sy < scale; sy += 1) {
+        for (let sx = 0; sx < scale; sx += 1) {
+          const index = ((y * scale + sy) * width + x * scale + sx) * 4;
+          r += buffer[index];
+          g += buffer[index + 1];
+          b += buffer[index + 2];
+          a += buffer[index + 3];
+        }
+      }
+      const index = (y * options.width + x) * 4;
+      a /= samples;
+      // Output is straight alpha, as PNG and ImageData expect.
+      image.data[index] = a > 0 ? Math.round((r / samples / a) * 255) : 0;
+      image.data[index + 1] = a > 0 ? Math.round((g / samples / a) * 255) : 0;
+      image.data[index + 2] = a > 0 ? Math.round((b / samples / a) * 255) : 0;
+      image.data[index + 3] = Math.round(a * 255);
+    }
+  }
+
+  return options.outputs ? applyOutputCorrection(image, options.outputs) : image;
+}
+
+export function renderFrameToPng(
+  layers: RasterLayer[],
+  options: RasterFrameOptions & { deflate?: (data: Uint8Array) => Uint8Array }
+): Uint8Array {
+  return encodePng(rasterizeLayers(layers, options), { deflate: options.deflate });
+}
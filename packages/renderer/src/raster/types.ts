@@ -0,0 +1,39 @@
+import type { MeshWarp, Point2D, Quad } from "../math/types";
+import type { CorrectedOutput } from "../correction";
+import type { ColorCorrection } from "../color";
+import type { BlendMode } from "../blend";
+
+export type RasterImage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+export type RasterLayer = {
+  id: string;
+  width: number;
+  height: number;
+  quad: Quad;
+  mesh?: MeshWarp;
+  opacity: number;
+  zIndex: number;
+  visible?: boolean;
+  texture?: RasterImage;
+  color?: [number, number, number, number];
+  fit?: "fill" | "cover";
+  shape?: "rect" | "circle" | "triangle";
+  clip?: Point2D[][];
+  // Stretched over the whole frame; its alpha channel scales coverage.
+  alphaMask?: RasterImage;
+  colorCorrection?: ColorCorrection;
+  blendMode?: BlendMode;
+};
+
+export type RasterFrameOptions = {
+  width: number;
+  height: number;
+  background?: [number, number, number, number];
+  supersample?: number;
+  // Applied after compositing, in frame pixels.
+  outputs?: CorrectedOutput[];
+};
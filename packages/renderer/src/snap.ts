@@ -0,0 +1,116 @@
+import type { Point2D } from "./math/types";
+
+export type SnapSegment = [Point2D, Point2D];
+
+export type SnapTargets = {
+  points?: Point2D[];
+  segments?: SnapSegment[];
+  xs?: number[];
+  ys?: number[];
+  grid?: number;
+  bounds?: { width: number; height: number };
+};
+
+export type SnapGuide = {
+  from: Point2D;
+  to: Point2D;
+};
+
+export type SnapResult = {
+  point: Point2D;
+  guides: SnapGuide[];
+  snapped: boolean;
+};
+
+function projectOnSegment(p: Point2D, [a, b]: SnapSegment): Point2D {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared, 0), 1)
+    : 0;
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+function nearestValue(value: number, candidates: number[], threshold: number): number | null {
+  let best: number | null = null;
+  let bestDistance = threshold;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate - value);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function gridValue(value: number, grid: number | undefined, threshold: number): number | null {
+  if (!grid || grid <= 0) return null;
+  const snapped = Math.round(value / grid) * grid;
+  return Math.abs(snapped - value) <= threshold ? snapped : null;
+}
+
+// Corners win over edges, edges over axis alignment; grid lines only apply
+// to axes nothing else claimed.
+export function snapPoint(point: Point2D, targets: SnapTargets, threshold: number): SnapResult {
+  const points = targets.points ?? [];
+  const extentX = targets.bounds?.width ?? Math.max(point.x, ...points.map((p) => p.x));
+  const extentY = targets.bounds?.height ?? Math.max(point.y, ...points.map((p) => p.y));
+
+  let nearest: Point2D | null = null;
+  let nearestDistance = threshold;
+  for (const candidate of points) {
+    const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+    if (distance <= nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  if (nearest) {
+    return {
+      point: { x: nearest.x, y: nearest.y },
+      guides: [
+        { from: { x: nearest.x, y: 0 }, to: { x: nearest.x, y: extentY } },
+        { from: { x: 0, y: nearest.y }, to: { x: extentX, y: nearest.y } }
+      ],
+      snapped: true
+    };
+  }
+
+  let edge: { point: Point2D; segment: SnapSegment } | null = null;
+  let edgeDistance = threshold;
+  for (const segment of targets.segments ?? []) {
+    const projected = projectOnSegment(point, segment);
+    const distance = Math.hypot(projected.x - point.x, projected.y - point.y);
+    if (distance <= edgeDistance) {
+      edge = { point: projected, segment };
+      edgeDistance = distance;
+    }
+  }
+  if (edge) {
+    return {
+      point: edge.point,
+      guides: [{ from: edge.segment[0], to: edge.segment[1] }],
+      snapped: true
+    };
+  }
+
+  const bounds = targets.bounds;
+  const xs = [...(targets.xs ?? []), ...points.map((p) => p.x), ...(bounds ? [0, bounds.width] : [])];
+  const ys = [...(targets.ys ?? []), ...points.map((p) => p.y), ...(bounds ? [0, bounds.height] : [])];
+  const alignedX = nearestValue(point.x, xs, threshold);
+  const alignedY = nearestValue(point.y, ys, threshold);
+  const x = alignedX ?? gridValue(point.x, targets.grid, threshold);
+  const y = alignedY ?? gridValue(point.y, targets.grid, threshold);
+
+  const guides: SnapGuide[] = [];
+  if (alignedX !== null) guides.push({ from: { x: alignedX, y: 0 }, to: { x: alignedX, y: extentY } });
+  if (alignedY !== null) guides.push({ from: { x: 0, y: alignedY }, to: { x: extentX, y: alignedY } });
+
+  return {
+    point: { x: x ?? point.x, y: y ?? point.y },
+    guides,
+    snapped: x !== null || y !== null
+  };
+}
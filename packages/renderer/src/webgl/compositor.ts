@@ -0,0 +1,618 @@
+import type { Matrix3x3, MeshWarp, Point2D, Quad } from "../math/types";
+import { computeHomographyRectToQuad, invertHomography } from "../math/homography";
+import { computeMeshCellHomography, subdivideMesh } from "../math/mesh";
+import { computeKeystoneInverse, isIdentityCorrection } from "../correction";
+import { hueRotationMatrix, isNeutralColorCorrection, saturationMatrix } from "../color";
+import type { BlendMode } from "../blend";
+import type { ColorCorrection, ColorLut } from "../color";
+import type { CorrectedOutput } from "../correction";
+import {
+  CORRECTION_FRAGMENT_SHADER,
+  LAYER_FRAGMENT_SHADER,
+  LAYER_VERTEX_SHADER,
+  MASK_FRAGMENT_SHADER
+} from "./shaders";
+
+export type WebGLLayerShape = "rect" | "circle" | "triangle";
+export type WebGLLayerFit = "fill" | "cover";
+export type WebGLTextureSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+
+export type WebGLLayer = {
+  id: string;
+  width: number;
+  height: number;
+  quad: Quad;
+  mesh?: MeshWarp;
+  opacity: number;
+  zIndex: number;
+  source?: WebGLTextureSource;
+  color?: [number, number, number, number];
+  fit?: WebGLLayerFit;
+  shape?: WebGLLayerShape;
+  clip?: Point2D[][];
+  // Stretched over the whole stage; its alpha channel scales coverage.
+  mask?: WebGLTextureSource;
+  colorCorrection?: ColorCorrection;
+  blendMode?: BlendMode;
+};
+
+export type WebGLFrameOptions = {
+  width: number;
+  height: number;
+  pixelRatio?: number;
+  background?: [number, number, number, number];
+  // Applied after all layers are composited; regions are in stage pixels.
+  outputs?: CorrectedOutput[];
+};
+
+export type WebGLCompositor = {
+  render: (layers: WebGLLayer[], options: WebGLFrameOptions) => void;
+  dispose: () => void;
+};
+
+type TextureEntry = {
+  texture: WebGLTexture;
+  source: WebGLTextureSource | null;
+  width: number;
+  height: number;
+};
+
+type LutEntry = {
+  texture: WebGLTexture;
+  lut: ColorLut;
+  columns: number;
+  rows: number;
+};
+
+type FrameTarget = {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  renderbuffer: WebGLRenderbuffer;
+  width: number;
+  height: number;
+};
+
+const BLEND_INDEX: Record<BlendMode, number> = {
+  normal: 0,
+  add: 1,
+  screen: 2,
+  multiply: 3,
+  overlay: 4,
+  difference: 5
+};
+
+const IDENTITY: Matrix3x3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const SHAPE_INDEX: Record<WebGLLayerShape, number> = {
+  rect: 0,
+  circle: 1,
+  triangle: 2
+};
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error("Unable to create WebGL shader.");
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`WebGL shader failed to compile: ${log ?? "unknown error"}`);
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error("Unable to create WebGL program.");
+  }
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`WebGL program failed to link: ${log ?? "unknown error"}`);
+  }
+  return program;
+}
+
+function toColumnMajor(H: Matrix3x3): Float32Array {
+  return new Float32Array([
+    H[0], H[3], H[6],
+    H[1], H[4], H[7],
+    H[2], H[5], H[8]
+  ]);
+}
+
+function sourceSize(source: WebGLTextureSource): { width: number; height: number } {
+  if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (typeof HTMLImageElement !== "undefined" && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+}
+
+function isSourceReady(source: WebGLTextureSource): boolean {
+  if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+    return source.readyState >= 2 && source.videoWidth > 0;
+  }
+  if (typeof HTMLImageElement !== "undefined" && source instanceof HTMLImageElement) {
+    return source.complete && source.naturalWidth > 0;
+  }
+  return source.width > 0 && source.height > 0;
+}
+
+function isDynamicSource(source: WebGLTextureSource): boolean {
+  return typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement;
+}
+
+function computeCoverTransform(
+  layer: WebGLLayer,
+  texture: TextureEntry
+): [number, number, number, number] {
+  if (layer.fit !== "cover" || texture.width <= 0 || texture.height <= 0) {
+    return [1, 1, 0, 0];
+  }
+  const scale = Math.max(layer.width / texture.width, layer.height / texture.height);
+  const scaleX = layer.width / (texture.width * scale);
+  const scaleY = layer.height / (texture.height * scale);
+  return [scaleX, scaleY, (1 - scaleX) / 2, (1 - scaleY) / 2];
+}
+
+function computeLayerCells(layer: WebGLLayer): { target: Quad; inverse: Matrix3x3 }[] {
+  if (layer.mesh) {
+    return subdivideMesh(layer.mesh, layer.width, layer.height).flatMap((cell) => {
+      try {
+        return [{ target: cell.target, inverse: invertHomography(computeMeshCellHomography(cell)) }];
+      } catch {
+        return [];
+      }
+    });
+  }
+  const H = computeHomographyRectToQuad(layer.width, layer.height, layer.quad);
+  return [{ target: layer.quad, inverse: invertHomography(H) }];
+}
+
+export function createWebGLCompositor(canvas: HTMLCanvasElement): WebGLCompositor {
+  const gl = canvas.getContext("webgl", {
+    alpha: true,
+    antialias: true,
+    premultipliedAlpha: true,
+    stencil: true
+  });
+  if (!gl) {
+    throw new Error("WebGL is not available.");
+  }
+
+  const layerProgram = createProgram(gl, LAYER_VERTEX_SHADER, LAYER_FRAGMENT_SHADER);
+  const maskProgram = createProgram(gl, LAYER_VERTEX_SHADER, MASK_FRAGMENT_SHADER);
+  const correctionProgram = createProgram(gl, LAYER_VERTEX_SHADER, CORRECTION_FRAGMENT_SHADER);
+  const buffer = gl.createBuffer();
+  const textures = new Map<string, TextureEntry>();
+  const lutTextures = new Map<string, LutEntry>();
+  let frameTarget: FrameTarget | null = null;
+  let backdrop: { texture: WebGLTexture; width: number; height: number } | null = null;
+
+  const layerUniforms = {
+    resolution: gl.getUniformLocation(layerProgram, "u_resolution"),
+    inverse: gl.getUniformLocation(layerProgram, "u_inverse"),
+    size: gl.getUniformLocation(layerProgram, "u_size"),
+    uvTransform: gl.getUniformLocation(layerProgram, "u_uvTransform"),
+    pixelRatio: gl.getUniformLocation(layerProgram, "u_pixelRatio"),
+    viewportHeight: gl.getUniformLocation(layerProgram, "u_viewportHeight"),
+    texture: gl.getUniformLocation(layerProgram, "u_texture"),
+    useTexture: gl.getUniformLocation(layerProgram, "u_useTexture"),
+    color: gl.getUniformLocation(layerProgram, "u_color"),
+    opacity: gl.getUniformLocation(layerProgram, "u_opacity"),
+    shape: gl.getUniformLocation(layerProgram, "u_shape"),
+    mask: gl.getUniformLocation(layerProgram, "u_mask"),
+    useMask: gl.getUniformLocation(layerProgram, "u_useMask"),
+    stageSize: gl.getUniformLocation(layerProgram, "u_stageSize"),
+    useColor: gl.getUniformLocation(layerProgram, "u_useColor"),
+    brightness: gl.getUniformLocation(layerProgram, "u_brightness"),
+    contrast: gl.getUniformLocation(layerProgram, "u_contrast"),
+    saturation: gl.getUniformLocation(layerProgram, "u_saturation"),
+    hue: gl.getUniformLocation(layerProgram, "u_hue"),
+    gamma: gl.getUniformLocation(layerProgram, "u_gamma"),
+    useLut: gl.getUniformLocation(layerProgram, "u_useLut"),
+    lut: gl.getUniformLocation(layerProgram, "u_lut"),
+    lutSize: gl.getUniformLocation(layerProgram, "u_lutSize"),
+    lutGrid: gl.getUniformLocation(layerProgram, "u_lutGrid"),
+    lutDomainMin: gl.getUniformLocation(layerProgram, "u_lutDomainMin"),
+    lutDomainMax: gl.getUniformLocation(layerProgram, "u_lutDomainMax"),
+    blendMode: gl.getUniformLocation(layerProgram, "u_blendMode"),
+    backdrop: gl.getUniformLocation(layerProgram, "u_backdrop"),
+    viewportSize: gl.getUniformLocation(layerProgram, "u_viewportSize")
+  };
+  const correctionUniforms = {
+    resolution: gl.getUniformLocation(correctionProgram, "u_resolution"),
+    frame: gl.getUniformLocation(correctionProgram, "u_frame"),
+    region: gl.getUniformLocation(correctionProgram, "u_region"),
+    keystoneInverse: gl.getUniformLocation(correctionProgram, "u_keystoneInverse"),
+    k: gl.getUniformLocation(correctionProgram, "u_k"),
+    pixelRatio: gl.getUniformLocation(correctionProgram, "u_pixelRatio"),
+    viewportHeight: gl.getUniformLocation(correctionProgram, "u_viewportHeight"),
+    stageSize: gl.getUniformLocation(correctionProgram, "u_stageSize")
+  };
+  const maskResolution = gl.getUniformLocation(maskProgram, "u_resolution");
+  const layerPosition = gl.getAttribLocation(layerProgram, "a_position");
+  const maskPosition = gl.getAttribLocation(maskProgram, "a_position");
+  const correctionPosition = gl.getAttribLocation(correctionProgram, "a_position");
+
+  const drawFan = (points: Point2D[], attribute: number) => {
+    const data = new Float32Array(points.length * 2);
+    points.forEach((point, index) => {
+      data[index * 2] = point.x;
+      data[index * 2 + 1] = point.y;
+    });
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STREAM_DRAW);
+    gl.enableVertexAttribArray(attribute);
+    gl.vertexAttribPointer(attribute, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(gl.TRIANGLE_FAN, 0, points.length);
+  };
+
+  const updateTexture = (key: string, source: WebGLTextureSource | undefined): TextureEntry | null => {
+    if (!source || !isSourceReady(source)) {
+      return textures.get(key) ?? null;
+    }
+
+    let entry = textures.get(key);
+    if (!entry) {
+      const texture = gl.createTexture();
+      if (!texture) return null;
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      entry = { texture, source: null, width: 0, height: 0 };
+      textures.set(key, entry);
+    }
+
+    if (entry.source !== source || isDynamicSource(source)) {
+      gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+      const size = sourceSize(source);
+      entry.source = source;
+      entry.width = size.width;
+      entry.height = size.height;
+    }
+
+    return entry;
+  };
+
+  // LUT entries are quantised to 8 bits; the software rasterizer samples them in float.
+  // Blue slices are laid out in rows as wide as the texture size allows, so
+  // every size parseCubeLut accepts fits a 4096 texture without resampling.
+  const updateLutTexture = (key: string, lut: ColorLut): LutEntry | null => {
+    const n = lut.size;
+    const maxSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+    const columns = Math.min(n, Math.floor(maxSize / n));
+    const rows = columns > 0 ? Math.ceil(n / columns) : Infinity;
+    if (rows * n > maxSize) return null;
+
+    let entry = lutTextures.get(key);
+    if (entry && entry.lut === lut) return entry;
+    if (!entry) {
+      const texture = gl.createTexture();
+      if (!texture) return null;
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      entry = { texture, lut, columns, rows };
+      lutTextures.set(key, entry);
+    }
+
+    const width = columns * n;
+    const pixels = new Uint8Array(width * rows * n * 4);
+    for (let b = 0; b < n; b += 1) {
+      const left = (b % columns) * n;
+      const top = Math.floor(b / columns) * n;
+      for (let g = 0; g < n; g += 1) {
+        for (let r = 0; r < n; r += 1) {
+          const source = ((b * n + g) * n + r) * 3;
+          const target = ((top + g) * width + left + r) * 4;
+          pixels[target] = Math.round(Math.min(Math.max(lut.data[source], 0), 1) * 255);
+          pixels[target + 1] = Math.round(Math.min(Math.max(lut.data[source + 1], 0), 1) * 255);
+          pixels[target + 2] = Math.round(Math.min(Math.max(lut.data[source + 2], 0), 1) * 255);
+          pixels[target + 3] = 255;
+        }
+      }
+    }
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, rows * n, 0, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    entry.lut = lut;
+    entry.columns = columns;
+    entry.rows = rows;
+    return entry;
+  };
+
+  // Blend modes other than normal read the pixels below the layer, so the
+  // current target is copied into a texture before the layer is drawn.
+  const copyBackdrop = (width: number, height: number): WebGLTexture | null => {
+    if (!backdrop || backdrop.width !== width || backdrop.height !== height) {
+      if (backdrop) gl.deleteTexture(backdrop.texture);
+      const texture = gl.createTexture();
+      if (!texture) {
+        backdrop = null;
+        return null;
+      }
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      backdrop = { texture, width, height };
+    }
+    gl.bindTexture(gl.TEXTURE_2D, backdrop.texture);
+    gl.copyTexSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 0, 0, width, height);
+    return backdrop.texture;
+  };
+
+  const releaseFrameTarget = () => {
+    if (!frameTarget) return;
+    gl.deleteFramebuffer(frameTarget.framebuffer);
+    gl.deleteTexture(frameTarget.texture);
+    gl.deleteRenderbuffer(frameTarget.renderbuffer);
+    frameTarget = null;
+  };
+
+  const ensureFrameTarget = (width: number, height: number): FrameTarget | null => {
+    if (frameTarget && frameTarget.width === width && frameTarget.height === height) {
+      return frameTarget;
+    }
+    releaseFrameTarget();
+    const framebuffer = gl.createFramebuffer();
+    const texture = gl.createTexture();
+    const renderbuffer = gl.createRenderbuffer();
+    if (!framebuffer || !texture || !renderbuffer) return null;
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.bindRenderbuffer(gl.RENDERBUFFER, renderbuffer);
+    gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_STENCIL, width, height);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_STENCIL_ATTACHMENT, gl.RENDERBUFFER, renderbuffer);
+    const complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    frameTarget = { framebuffer, texture, renderbuffer, width, height };
+    if (!complete) {
+      releaseFrameTarget();
+      return null;
+    }
+    return frameTarget;
+  };
+
+  const drawCorrection = (
+    target: FrameTarget,
+    region: CorrectedOutput["region"],
+    inverse: Matrix3x3,
+    k: [number, number],
+    options: WebGLFrameOptions,
+    pixelRatio: number
+  ) => {
+    gl.useProgram(correctionProgram);
+    gl.uniform2f(correctionUniforms.resolution, options.width, options.height);
+    gl.uniform4f(correctionUniforms.region, region.x, region.y, region.width, region.height);
+    gl.uniformMatrix3fv(correctionUniforms.keystoneInverse, false, toColumnMajor(inverse));
+    gl.uniform2f(correctionUniforms.k, k[0], k[1]);
+    gl.uniform1f(correctionUniforms.pixelRatio, pixelRatio);
+    gl.uniform1f(correctionUniforms.viewportHeight, target.height);
+    gl.uniform2f(correctionUniforms.stageSize, options.width, options.height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.uniform1i(correctionUniforms.frame, 0);
+    drawFan([
+      { x: region.x, y: region.y },
+      { x: region.x + region.width, y: region.y },
+      { x: region.x + region.width, y: region.y + region.height },
+      { x: region.x, y: region.y + region.height }
+    ], correctionPosition);
+  };
+
+  const render = (layers: WebGLLayer[], options: WebGLFrameOptions) => {
+    const pixelRatio = options.pixelRatio ?? 1;
+    const deviceWidth = Math.max(1, Math.round(options.width * pixelRatio));
+    const deviceHeight = Math.max(1, Math.round(options.height * pixelRatio));
+    if (canvas.width !== deviceWidth || canvas.height !== deviceHeight) {
+      canvas.width = deviceWidth;
+      canvas.height = deviceHeight;
+    }
+
+    const corrections = (options.outputs ?? []).flatMap((output) => {
+      if (output.region.width <= 0 || output.region.height <= 0) return [];
+      if (isIdentityCorrection(output.correction)) return [];
+      try {
+        return [{ region: output.region, correction: output.correction, inverse: computeKeystoneInverse(output.correction) }];
+      } catch {
+        return [];
+      }
+    });
+    // Layers go to an offscreen frame only when some output needs resampling.
+    const target = corrections.length > 0 ? ensureFrameTarget(deviceWidth, deviceHeight) : null;
+    if (!target) releaseFrameTarget();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+
+    const [r, g, b, a] = options.background ?? [0, 0, 0, 0];
+    gl.viewport(0, 0, deviceWidth, deviceHeight);
+    gl.clearColor(r * a, g * a, b * a, a);
+    gl.clearStencil(0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.STENCIL_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    const activeIds = new Set<string>();
+    const ordered = [...layers].sort((left, right) => left.zIndex - right.zIndex);
+
+    for (const layer of ordered) {
+      activeIds.add(layer.id);
+      if (layer.opacity <= 0 || layer.width <= 0 || layer.height <= 0) continue;
+
+      const texture = layer.source ? updateTexture(layer.id, layer.source) : null;
+      if (layer.source && !texture) continue;
+      if (!layer.source && !layer.color) continue;
+
+      const maskKey = `${layer.id}:mask`;
+      activeIds.add(maskKey);
+      const maskTexture = layer.mask ? updateTexture(maskKey, layer.mask) : null;
+      const grading = layer.colorCorrection && !isNeutralColorCorrection(layer.colorCorrection)
+        ? layer.colorCorrection
+        : null;
+      const lutKey = `${layer.id}:lut`;
+      if (grading?.lut) activeIds.add(lutKey);
+      const lutTexture = grading?.lut ? updateLutTexture(lutKey, grading.lut) : null;
+
+      let cells: { target: Quad; inverse: Matrix3x3 }[];
+      try {
+        cells = computeLayerCells(layer);
+      } catch {
+        continue;
+      }
+
+      if (layer.clip && layer.clip.length > 0) {
+        gl.useProgram(maskProgram);
+        gl.uniform2f(maskResolution, options.width, options.height);
+        gl.enable(gl.STENCIL_TEST);
+        gl.clear(gl.STENCIL_BUFFER_BIT);
+        gl.colorMask(false, false, false, false);
+        gl.stencilFunc(gl.ALWAYS, 0, 0xff);
+        gl.stencilOp(gl.KEEP, gl.KEEP, gl.INVERT);
+        layer.clip.forEach((polygon) => {
+          if (polygon.length >= 3) drawFan(polygon, maskPosition);
+        });
+        gl.colorMask(true, true, true, true);
+        gl.stencilFunc(gl.NOTEQUAL, 0, 0xff);
+        gl.stencilOp(gl.KEEP, gl.KEEP, gl.KEEP);
+      } else {
+        gl.disable(gl.STENCIL_TEST);
+      }
+
+      const blendMode = layer.blendMode && layer.blendMode !== "normal" ? layer.blendMode : null;
+      const backdropTexture = blendMode ? copyBackdrop(deviceWidth, deviceHeight) : null;
+
+      gl.useProgram(layerProgram);
+      gl.uniform2f(layerUniforms.resolution, options.width, options.height);
+      gl.uniform2f(layerUniforms.size, layer.width, layer.height);
+      gl.uniform1f(layerUniforms.pixelRatio, pixelRatio);
+      gl.uniform1f(layerUniforms.viewportHeight, deviceHeight);
+      gl.uniform1f(layerUniforms.opacity, Math.min(Math.max(layer.opacity, 0), 1));
+      gl.uniform1i(layerUniforms.shape, SHAPE_INDEX[layer.shape ?? "rect"]);
+      gl.uniform1i(layerUniforms.useTexture, texture ? 1 : 0);
+      gl.uniform4fv(layerUniforms.color, layer.color ?? [1, 1, 1, 1]);
+      gl.uniform4fv(layerUniforms.uvTransform, texture ? computeCoverTransform(layer, texture) : [1, 1, 0, 0]);
+      gl.uniform1i(layerUniforms.useMask, maskTexture ? 1 : 0);
+      gl.uniform2f(layerUniforms.stageSize, options.width, options.height);
+      if (texture) {
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, texture.texture);
+        gl.uniform1i(layerUniforms.texture, 0);
+      }
+      if (maskTexture) {
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, maskTexture.texture);
+        gl.uniform1i(layerUniforms.mask, 1);
+        gl.activeTexture(gl.TEXTURE0);
+      }
+      gl.uniform1i(layerUniforms.useColor, grading ? 1 : 0);
+      gl.uniform1i(layerUniforms.useLut, lutTexture ? 1 : 0);
+      if (grading) {
+        gl.uniform1f(layerUniforms.brightness, grading.brightness);
+        gl.uniform1f(layerUniforms.contrast, grading.contrast);
+        gl.uniformMatrix3fv(layerUniforms.saturation, false, toColumnMajor(saturationMatrix(grading.saturation)));
+        gl.uniformMatrix3fv(layerUniforms.hue, false, toColumnMajor(hueRotationMatrix(grading.hue)));
+        gl.uniform1f(layerUniforms.gamma, Math.max(grading.gamma, 1e-6));
+      }
+      if (grading?.lut && lutTexture) {
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_2D, lutTexture.texture);
+        gl.uniform1i(layerUniforms.lut, 2);
+        gl.uniform1f(layerUniforms.lutSize, grading.lut.size);
+        gl.uniform2f(layerUniforms.lutGrid, lutTexture.columns, lutTexture.rows);
+        gl.uniform3fv(layerUniforms.lutDomainMin, grading.lut.domainMin);
+        gl.uniform3fv(layerUniforms.lutDomainMax, grading.lut.domainMax);
+        gl.activeTexture(gl.TEXTURE0);
+      }
+
+      gl.uniform1i(layerUniforms.blendMode, backdropTexture && blendMode ? BLEND_INDEX[blendMode] : 0);
+      if (backdropTexture) {
+        // The shader writes the blended result itself.
+        gl.activeTexture(gl.TEXTURE3);
+        gl.bindTexture(gl.TEXTURE_2D, backdropTexture);
+        gl.uniform1i(layerUniforms.backdrop, 3);
+        gl.uniform2f(layerUniforms.viewportSize, deviceWidth, deviceHeight);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.disable(gl.BLEND);
+      }
+
+      for (const cell of cells) {
+        gl.uniformMatrix3fv(layerUniforms.inverse, false, toColumnMajor(cell.inverse));
+        drawFan(cell.target, layerPosition);
+      }
+      if (backdropTexture) gl.enable(gl.BLEND);
+    }
+
+    gl.disable(gl.STENCIL_TEST);
+
+    if (target) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.disable(gl.BLEND);
+      const stage = { x: 0, y: 0, width: options.width, height: options.height };
+      drawCorrection(target, stage, IDENTITY, [0, 0], options, pixelRatio);
+      for (const { region, correction, inverse } of corrections) {
+        drawCorrection(target, region, inverse, [correction.k1, correction.k2], options, pixelRatio);
+      }
+      gl.enable(gl.BLEND);
+    }
+
+    for (const [id, entry] of textures) {
+      if (!activeIds.has(id)) {
+        gl.deleteTexture(entry.texture);
+        textures.delete(id);
+      }
+    }
+    for (const [id, entry] of lutTextures) {
+      if (!activeIds.has(id)) {
+        gl.deleteTexture(entry.texture);
+        lutTextures.delete(id);
+      }
+    }
+  };
+
+  const dispose = () => {
+    textures.forEach((entry) => gl.deleteTexture(entry.texture));
+    textures.clear();
+    lutTextures.forEach((entry) => gl.deleteTexture(entry.texture));
+    lutTextures.clear();
+    if (backdrop) gl.deleteTexture(backdrop.texture);
+    backdrop = null;
+    releaseFrameTarget();
+    gl.deleteBuffer(buffer);
+    gl.deleteProgram(layerProgram);
+    gl.deleteProgram(maskProgram);
+    gl.deleteProgram(correctionProgram);
+  };
+
+  return { render, dispose };
+}
@@ -0,0 +1,161 @@
+export const LAYER_VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform vec2 u_resolution;
+
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+// Inverse mapping per fragment keeps the warp perspective-correct; plain
+// texture coordinates on two triangles would interpolate affinely.
+export const LAYER_FRAGMENT_SHADER = `
+precision highp float;
+
+uniform mat3 u_inverse;
+uniform vec2 u_size;
+uniform vec4 u_uvTransform;
+uniform float u_pixelRatio;
+uniform float u_viewportHeight;
+uniform sampler2D u_texture;
+uniform bool u_useTexture;
+uniform vec4 u_color;
+uniform float u_opacity;
+uniform int u_shape;
+uniform sampler2D u_mask;
+uniform bool u_useMask;
+uniform vec2 u_stageSize;
+uniform bool u_useColor;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform mat3 u_saturation;
+uniform mat3 u_hue;
+uniform float u_gamma;
+uniform bool u_useLut;
+uniform sampler2D u_lut;
+uniform float u_lutSize;
+uniform vec2 u_lutGrid;
+uniform vec3 u_lutDomainMin;
+uniform vec3 u_lutDomainMax;
+uniform int u_blendMode;
+uniform sampler2D u_backdrop;
+uniform vec2 u_viewportSize;
+
+// The 3D LUT is packed as blue slices in a grid of u_lutGrid columns and rows;
+// red/green interpolate in hardware, blue between two slice lookups.
+vec2 lutCoord(float slice, vec2 rg) {
+  float n = u_lutSize;
+  float row = floor((slice + 0.5) / u_lutGrid.x);
+  float column = slice - row * u_lutGrid.x;
+  return vec2((column * n + rg.x) / (n * u_lutGrid.x), (row * n + rg.y) / (n * u_lutGrid.y));
+}
+
+vec3 applyLut(vec3 c) {
+  float n = u_lutSize;
+  vec3 scaled = clamp((c - u_lutDomainMin) / (u_lutDomainMax - u_lutDomainMin), 0.0, 1.0) * (n - 1.0);
+  float b0 = floor(scaled.b);
+  float b1 = min(b0 + 1.0, n - 1.0);
+  vec2 rg = scaled.rg + 0.5;
+  vec3 lower = texture2D(u_lut, lutCoord(b0, rg)).rgb;
+  vec3 upper = texture2D(u_lut, lutCoord(b1, rg)).rgb;
+  return mix(lower, upper, scaled.b - b0);
+}
+
+// Mirrors applyColorCorrection on straight color, clamping after every step.
+vec4 grade(vec4 color) {
+  if (!u_useColor || color.a <= 0.0) return color;
+  vec3 c = color.rgb / color.a;
+  c = clamp(c * u_brightness, 0.0, 1.0);
+  c = clamp((c - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  c = clamp(u_saturation * c, 0.0, 1.0);
+  c = clamp(u_hue * c, 0.0, 1.0);
+  c = pow(c, vec3(1.0 / u_gamma));
+  if (u_useLut) c = applyLut(c);
+  return vec4(c * color.a, color.a);
+}
+
+// Mirrors blendPremultiplied; 1 add, 2 screen, 3 multiply, 4 overlay, 5 difference.
+vec3 blendColors(vec3 cb, vec3 cs) {
+  if (u_blendMode == 2) return cb + cs - cb * cs;
+  if (u_blendMode == 3) return cb * cs;
+  if (u_blendMode == 4) {
+    vec3 low = 2.0 * cb * cs;
+    vec3 high = cs + (2.0 * cb - 1.0) - cs * (2.0 * cb - 1.0);
+    return mix(low, high, step(0.5 + 1e-6, cb));
+  }
+  if (u_blendMode == 5) return abs(cb - cs);
+  return cs;
+}
+
+vec4 blend(vec4 source) {
+  vec4 backdrop = texture2D(u_backdrop, gl_FragCoord.xy / u_viewportSize);
+  if (u_blendMode == 1) return min(source + backdrop, 1.0);
+  vec3 cs = source.a > 0.0 ? source.rgb / source.a : vec3(0.0);
+  vec3 cb = backdrop.a > 0.0 ? backdrop.rgb / backdrop.a : vec3(0.0);
+  vec3 mixed = (1.0 - backdrop.a) * cs + backdrop.a * blendColors(cb, cs);
+  return vec4(source.a * mixed + (1.0 - source.a) * backdrop.rgb, source.a + backdrop.a * (1.0 - source.a));
+}
+
+void main() {
+  vec2 stage = vec2(gl_FragCoord.x, u_viewportHeight - gl_FragCoord.y) / u_pixelRatio;
+  vec3 p = u_inverse * vec3(stage, 1.0);
+  vec2 uv = (p.xy / p.z) / u_size;
+
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) discard;
+  if (u_shape == 1 && length(uv - 0.5) > 0.5) discard;
+  if (u_shape == 2 && uv.y < abs(2.0 * uv.x - 1.0)) discard;
+
+  vec4 color = u_useTexture
+    ? texture2D(u_texture, uv * u_uvTransform.xy + u_uvTransform.zw)
+    : vec4(u_color.rgb * u_color.a, u_color.a);
+  color = grade(color);
+  float coverage = u_useMask ? texture2D(u_mask, stage / u_stageSize).a : 1.0;
+  vec4 source = color * u_opacity * coverage;
+  gl_FragColor = u_blendMode == 0 ? source : blend(source);
+}
+`;
+
+export const MASK_FRAGMENT_SHADER = `
+precision mediump float;
+
+void main() {
+  gl_FragColor = vec4(1.0);
+}
+`;
+
+// Output correction pass: mirrors mapCorrectedPoint for every destination pixel
+// of an output region and samples the composited frame.
+export const CORRECTION_FRAGMENT_SHADER = `
+precision highp float;
+
+uniform sampler2D u_frame;
+uniform vec4 u_region;
+uniform mat3 u_keystoneInverse;
+uniform vec2 u_k;
+uniform float u_pixelRatio;
+uniform float u_viewportHeight;
+uniform vec2 u_stageSize;
+
+void main() {
+  vec2 stage = vec2(gl_FragCoord.x, u_viewportHeight - gl_FragCoord.y) / u_pixelRatio;
+  vec2 dest = (stage - u_region.xy) / u_region.zw;
+  vec3 p = u_keystoneInverse * vec3(dest, 1.0);
+  if (p.z <= 0.0) {
+    gl_FragColor = vec4(0.0);
+    return;
+  }
+
+  float halfDiagonal = length(u_region.zw) * 0.5;
+  vec2 q = (p.xy / p.z - 0.5) * u_region.zw / halfDiagonal;
+  float r2 = dot(q, q);
+  vec2 source = q * (1.0 + u_k.x * r2 + u_k.y * r2 * r2) * halfDiagonal / u_region.zw + 0.5;
+  if (source.x < 0.0 || source.y < 0.0 || source.x > 1.0 || source.y > 1.0) {
+    gl_FragColor = vec4(0.0);
+    return;
+  }
+
+  vec2 frame = (u_region.xy + source * u_region.zw) / u_stageSize;
+  gl_FragColor = texture2D(u_frame, vec2(frame.x, 1.0 - frame.y));
+}
+`;